@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ACTIVITY_PHRASES, type ActivityKind } from "@/lib/activities";
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+interface ActivityBannerProps {
+  // Set while we are recording
+  recordingStartedAt: number | null;
+  // Ongoing activities of other participants, id -> { userName, kinds }
+  remoteActivities: Record<string, { userName: string; kinds: ActivityKind[] }>;
+  onStopRecording: () => void;
+}
+
+// Stays up for everyone in the room while anybody records or transcribes
+export const ActivityBanner = ({
+  recordingStartedAt,
+  remoteActivities,
+  onStopRecording,
+}: ActivityBannerProps) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!recordingStartedAt) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [recordingStartedAt]);
+
+  // "Alice is recording", "Bob is transcribing"
+  const others = Object.values(remoteActivities).flatMap(({ userName, kinds }) =>
+    kinds.map((kind) => `${userName} ${ACTIVITY_PHRASES[kind].ongoing}`)
+  );
+
+  if (!recordingStartedAt && others.length === 0) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-2 bg-red-500/10 border-b border-red-500/30 px-3 sm:px-4 py-1.5">
+      <p className="text-xs sm:text-sm font-medium flex items-center gap-2 min-w-0">
+        <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+        {recordingStartedAt ? (
+          <>
+            Recording <span className="font-mono">{formatElapsed(now - recordingStartedAt)}</span>
+            {others.length > 0 && (
+              <span className="text-muted-foreground hidden sm:inline truncate">· {others.join(" · ")}</span>
+            )}
+          </>
+        ) : (
+          <span className="truncate">{others.join(" · ")}</span>
+        )}
+      </p>
+      {recordingStartedAt && (
+        <Button variant="secondary" size="sm" onClick={onStopRecording} className="h-7 text-xs">
+          Stop recording
+        </Button>
+      )}
+    </div>
+  );
+};
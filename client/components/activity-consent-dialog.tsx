@@ -0,0 +1,49 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ACTIVITY_PHRASES, type ActivityKind } from "@/lib/activities";
+
+const consentTitles: Record<ActivityKind, string> = {
+  recording: "This meeting is being recorded",
+  transcribing: "This meeting is being transcribed",
+  screenshot: "A screenshot was taken",
+};
+
+interface ActivityConsentDialogProps {
+  request: { userName: string; kind: ActivityKind } | null;
+  // false means the participant chose to leave
+  onRespond: (accepted: boolean) => void;
+}
+
+// Asks whether to stay when someone starts capturing the call. The answer is
+// logged in the chat for everyone.
+export const ActivityConsentDialog = ({ request, onRespond }: ActivityConsentDialogProps) => {
+  return (
+    <AlertDialog open={!!request}>
+      {request && (
+        <AlertDialogContent onEscapeKeyDown={(event) => event.preventDefault()}>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{consentTitles[request.kind]}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {request.userName} {ACTIVITY_PHRASES[request.kind].started}. Staying means you
+              agree to be included; everyone in the meeting will see your choice in the chat.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => onRespond(false)}>Leave meeting</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onRespond(true)}>Stay in meeting</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      )}
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,82 @@
+"use client";
+
+import { AudioLines, Languages } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CAPTION_LANGUAGES, ENGINE_LABELS, type TranscriptionEngineKind } from "@/lib/captions";
+import type { useCaptions } from "@/hooks/useCaptions";
+
+interface CaptionSettingsProps {
+  captions: ReturnType<typeof useCaptions>;
+}
+
+// How our own speech is captioned for the other participants
+export const CaptionSettings = ({ captions }: CaptionSettingsProps) => {
+  const { engines, engine, selectEngine, language, selectLanguage, transcriptionError } = captions;
+
+  if (engines.length === 0) {
+    return (
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        This browser can not caption your speech for others.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="caption-language-select" className="text-xs sm:text-sm flex items-center gap-1.5">
+            <Languages className="w-3.5 h-3.5" />
+            Spoken language
+          </Label>
+          <Select value={language} onValueChange={selectLanguage}>
+            <SelectTrigger id="caption-language-select" className="h-9 text-xs sm:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CAPTION_LANGUAGES.map((l) => (
+                <SelectItem key={l.code} value={l.code}>
+                  {l.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="caption-engine-select" className="text-xs sm:text-sm flex items-center gap-1.5">
+            <AudioLines className="w-3.5 h-3.5" />
+            Speech recognition
+          </Label>
+          <Select
+            value={engine ?? undefined}
+            onValueChange={(value) => selectEngine(value as TranscriptionEngineKind)}
+            disabled={engines.length < 2}
+          >
+            <SelectTrigger id="caption-engine-select" className="h-9 text-xs sm:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {engines.map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {ENGINE_LABELS[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {transcriptionError && (
+        <p className="text-xs text-destructive">{transcriptionError}</p>
+      )}
+    </div>
+  );
+};
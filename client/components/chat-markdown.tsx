@@ -0,0 +1,93 @@
+"use client";
+
+import { memo, useMemo, useState, type ReactNode } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { parseMarkdown, type MarkdownInline } from "@/lib/markdown";
+
+const renderInline = (nodes: MarkdownInline[]): ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return (
+          <code key={i} className="rounded bg-black/15 px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 break-all"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const CodeBlock = ({ code, language }: { code: string; language: string }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy code:", err);
+    }
+  };
+
+  return (
+    <div className="relative my-1 rounded-md bg-black/80 text-white text-left">
+      <div className="flex items-center justify-between px-2 pt-1 text-[10px] text-white/60">
+        <span className="font-mono">{language}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleCopy}
+          className="h-6 w-6 text-white/70 hover:text-white hover:bg-white/10"
+          title={copied ? "Copied" : "Copy code"}
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+        </Button>
+      </div>
+      <pre className="overflow-x-auto px-3 pb-2 font-mono text-xs leading-relaxed">
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+};
+
+// Chat text with Markdown formatting. Everything is rendered as React
+// elements (never as HTML) and links only allow http(s) and mailto.
+export const ChatMarkdown = memo(({ text, className }: { text: string; className?: string }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={cn("text-sm space-y-1", className)}>
+      {blocks.map((block, i) =>
+        block.type === "code" ? (
+          <CodeBlock key={i} code={block.code} language={block.language} />
+        ) : (
+          <p key={i} className="whitespace-pre-wrap">
+            {renderInline(block.children)}
+          </p>
+        )
+      )}
+    </div>
+  );
+});
+
+ChatMarkdown.displayName = "ChatMarkdown";
@@ -4,53 +4,198 @@ import type React from "react";
 
 import { useState, memo, useCallback, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Check, CheckCheck, Paperclip, Pencil, Reply, Send, SmilePlus, Trash2, X } from "lucide-react";
+import { FileTransferItem } from "./file-transfer-item";
+import type { useFileTransfers } from "@/hooks/useFileTransfers";
+import {
+  MAX_MESSAGE_LENGTH,
+  REACTION_EMOJIS,
+  isSystemMessage,
+  type ChatMessage as ChatMessageData,
+} from "@/lib/chat";
+import { getParticipantId } from "@/lib/participantId";
+import { ChatMarkdown } from "./chat-markdown";
+import type { MessageReceipt } from "@/hooks/useChatStatus";
 
 function cn(...classes: (string | boolean | undefined)[]) {
   return classes.filter(Boolean).join(" ");
 }
 
-interface Message {
-  id: number;
-  sender: string;
-  text: string;
-  timestamp: Date;
-  isLocal: boolean;
-}
+type Message = ChatMessageData;
 
 interface ChatSidebarProps {
   messages: Message[];
-  onSendMessage: (text: string) => void;
-  remoteSocketId: string | null;
+  onSendMessage: (text: string, replyTo?: Message["id"]) => void;
+  // Own messages only; the server checks again
+  onEditMessage?: (id: Message["id"], text: string) => void;
+  onDeleteMessage?: (id: Message["id"]) => void;
+  onToggleReaction?: (id: Message["id"], emoji: string) => void;
+  participantCount: number;
+  hasMoreHistory?: boolean;
+  isLoadingHistory?: boolean;
+  onLoadOlder?: () => void;
   isMobile?: boolean;
   onClose?: () => void;
+  // File sharing over the peer connections; hidden when not given
+  files?: ReturnType<typeof useFileTransfers>;
+  // Typing indicators and receipts (hooks/useChatStatus.ts)
+  typingNames?: string[];
+  onTyping?: () => void;
+  onStopTyping?: () => void;
+  receipts?: Record<string, MessageReceipt>;
+  // Other people's messages that were scrolled into view
+  onMessagesSeen?: (ids: Message["id"][]) => void;
+  // Shown in a "Transcript" tab next to the chat; no tabs when not given
+  transcriptPanel?: React.ReactNode;
+}
+
+interface ChatMessageProps {
+  message: Message;
+  localParticipantId: string;
+  receipt?: MessageReceipt;
+  onReply?: (message: Message) => void;
+  onEdit?: (message: Message) => void;
+  onDelete?: (message: Message) => void;
+  onToggleReaction?: (id: Message["id"], emoji: string) => void;
 }
 
-const ChatMessage = memo(({ message }: { message: Message }) => (
-  <div
-    className={cn(
-      "rounded-lg p-3 break-words",
-      message.isLocal
-        ? "bg-primary text-primary-foreground ml-4"
-        : message.sender === "System"
-        ? "bg-muted/50 text-center"
-        : "bg-muted mr-4"
-    )}
-  >
-    <div className="flex items-center gap-2 mb-1">
-      <p className="text-xs font-semibold">{message.sender}</p>
-      <p className="text-[10px] opacity-70">
-        {message.timestamp.toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-        })}
-      </p>
-    </div>
-    <p className="text-sm whitespace-pre-wrap">{message.text}</p>
-  </div>
-));
+const receiptLabels = { sent: "Sent", delivered: "Delivered", read: "Read" } as const;
+
+const ReceiptIcon = ({ receipt }: { receipt: MessageReceipt }) => {
+  const label =
+    receipt.readBy.length > 0
+      ? `${receiptLabels[receipt.status]} · read by ${receipt.readBy.join(", ")}`
+      : receiptLabels[receipt.status];
+  const Icon = receipt.status === "sent" ? Check : CheckCheck;
+
+  return (
+    <span className="ml-auto" title={label} aria-label={label}>
+      <Icon className={cn("w-3.5 h-3.5", receipt.status === "read" ? "text-sky-300" : "opacity-70")} />
+    </span>
+  );
+};
+
+const typingText = (names: string[]) =>
+  names.length === 1
+    ? `${names[0]} is typing…`
+    : names.length === 2
+    ? `${names[0]} and ${names[1]} are typing…`
+    : "Several people are typing…";
+
+const ChatMessage = memo(
+  ({ message, localParticipantId, receipt, onReply, onEdit, onDelete, onToggleReaction }: ChatMessageProps) => {
+    const isSystem = isSystemMessage(message);
+    const reactions = Object.entries(message.reactions ?? {});
+    const canAct = !isSystem && !message.deleted;
+
+    return (
+      <div
+        data-message-id={message.isLocal ? undefined : message.id}
+        className={cn(
+          "group relative rounded-lg p-3 break-words",
+          message.isLocal
+            ? "bg-primary text-primary-foreground ml-4"
+            : isSystem
+            ? "bg-muted/50 text-center"
+            : "bg-muted mr-4"
+        )}
+      >
+        <div className="flex items-center gap-2 mb-1">
+          <p className="text-xs font-semibold">{message.sender}</p>
+          <p className="text-[10px] opacity-70">
+            {message.timestamp.toLocaleTimeString([], {
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+            {message.editedAt && !message.deleted && " · edited"}
+          </p>
+          {receipt && <ReceiptIcon receipt={receipt} />}
+        </div>
+
+        {message.replyTo && (
+          <div className="mb-1.5 border-l-2 border-current pl-2 text-xs opacity-80">
+            <p className="font-semibold">{message.replyTo.sender}</p>
+            <p className="truncate">
+              {message.replyTo.deleted ? <em>Message deleted</em> : message.replyTo.text}
+            </p>
+          </div>
+        )}
+
+        {message.deleted ? (
+          <p className="text-sm italic opacity-70">This message was deleted</p>
+        ) : (
+          <ChatMarkdown text={message.text} />
+        )}
+
+        {reactions.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {reactions.map(([emoji, ids]) => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => onToggleReaction?.(message.id, emoji)}
+                className={cn(
+                  "rounded-full border px-1.5 py-0.5 text-xs leading-none",
+                  ids.includes(localParticipantId)
+                    ? "border-current bg-background/20"
+                    : "border-transparent bg-background/10"
+                )}
+              >
+                {emoji} {ids.length}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {canAct && (
+          <div className="absolute -top-3 right-2 hidden group-hover:flex group-focus-within:flex items-center gap-0.5 rounded-md border bg-background text-foreground shadow-sm p-0.5">
+            {onToggleReaction && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="React">
+                    <SmilePlus className="w-3.5 h-3.5" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-1 flex gap-0.5" side="top" align="end">
+                  {REACTION_EMOJIS.map((emoji) => (
+                    <Button
+                      key={emoji}
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-base"
+                      onClick={() => onToggleReaction(message.id, emoji)}
+                    >
+                      {emoji}
+                    </Button>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            )}
+            {onReply && (
+              <Button variant="ghost" size="icon" className="h-6 w-6" title="Reply" onClick={() => onReply(message)}>
+                <Reply className="w-3.5 h-3.5" />
+              </Button>
+            )}
+            {message.isLocal && onEdit && (
+              <Button variant="ghost" size="icon" className="h-6 w-6" title="Edit" onClick={() => onEdit(message)}>
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+            )}
+            {message.isLocal && onDelete && (
+              <Button variant="ghost" size="icon" className="h-6 w-6" title="Delete" onClick={() => onDelete(message)}>
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
 
 ChatMessage.displayName = "ChatMessage";
 
@@ -58,13 +203,42 @@ export const ChatSidebar = memo(
   ({
     messages,
     onSendMessage,
-    remoteSocketId,
+    onEditMessage,
+    onDeleteMessage,
+    onToggleReaction,
+    participantCount,
+    hasMoreHistory = false,
+    isLoadingHistory = false,
+    onLoadOlder,
     isMobile = false,
     onClose,
+    files,
+    typingNames = [],
+    onTyping,
+    onStopTyping,
+    receipts,
+    onMessagesSeen,
+    transcriptPanel,
   }: ChatSidebarProps) => {
     const [messageInput, setMessageInput] = useState("");
+    const [isDragging, setIsDragging] = useState(false);
+    // The composer either replies to a message or edits one of ours
+    const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+    const [editing, setEditing] = useState<Message | null>(null);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+    const localParticipantId = getParticipantId();
+    const hasParticipants = participantCount > 0;
     const messagesContainerRef = useRef<HTMLDivElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const transfers = files?.transfers ?? [];
+    const canShareFiles = !!files && hasParticipants;
+
+    // Messages and shared files in one timeline
+    const timeline = [
+      ...messages.map((message) => ({ kind: "message" as const, key: `m-${message.id}`, time: message.timestamp.getTime(), message })),
+      ...transfers.map((transfer) => ({ kind: "file" as const, key: `f-${transfer.id}`, time: transfer.timestamp.getTime(), transfer })),
+    ].sort((a, b) => a.time - b.time);
 
     // Auto-scroll to bottom when new messages arrive
     useEffect(() => {
@@ -84,60 +258,139 @@ export const ChatSidebar = memo(
           }, 50);
         }
       }
-    }, [messages]);
+    }, [messages, transfers.length]);
+
+    // Messages count as read once they have been on screen in the open sidebar
+    useEffect(() => {
+      const container = messagesContainerRef.current;
+      if (!container || !onMessagesSeen) return;
+
+      const observer = new IntersectionObserver(
+        (entries) => {
+          if (document.visibilityState !== "visible") return;
+          const ids = entries
+            .filter((entry) => entry.isIntersecting)
+            .map((entry) => (entry.target as HTMLElement).dataset.messageId!);
+          if (ids.length > 0) onMessagesSeen(ids);
+        },
+        { root: container, threshold: 0.6 }
+      );
+      container.querySelectorAll("[data-message-id]").forEach((el) => observer.observe(el));
+      return () => observer.disconnect();
+    }, [messages, onMessagesSeen]);
+
+    // Closing the sidebar mid-sentence should not leave us "typing"
+    useEffect(() => {
+      return () => onStopTyping?.();
+    }, [onStopTyping]);
+
+    const handleReply = useCallback((message: Message) => {
+      setEditing(null);
+      setReplyingTo(message);
+      inputRef.current?.focus();
+    }, []);
+
+    const handleEdit = useCallback((message: Message) => {
+      setReplyingTo(null);
+      setEditing(message);
+      setMessageInput(message.text);
+      inputRef.current?.focus();
+    }, []);
+
+    const cancelComposerMode = useCallback(() => {
+      if (editing) setMessageInput("");
+      setEditing(null);
+      setReplyingTo(null);
+    }, [editing]);
+
+    const handleDelete = useCallback(
+      (message: Message) => {
+        if (window.confirm("Delete this message for everyone?")) {
+          onDeleteMessage?.(message.id);
+        }
+      },
+      [onDeleteMessage]
+    );
 
     const handleSend = useCallback(() => {
+      if (editing) {
+        if (messageInput.trim() && messageInput.trim() !== editing.text) {
+          onEditMessage?.(editing.id, messageInput.trim());
+        }
+        setEditing(null);
+        setMessageInput("");
+        return;
+      }
+
       if (messageInput.trim()) {
-        onSendMessage(messageInput.trim());
+        onSendMessage(messageInput.trim(), replyingTo?.id);
+        onStopTyping?.();
         setMessageInput("");
+        setReplyingTo(null);
 
         // Force scroll to bottom after sending
         setTimeout(() => {
           messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
         }, 100);
       }
-    }, [messageInput, onSendMessage]);
+    }, [messageInput, onSendMessage, onEditMessage, onStopTyping, editing, replyingTo]);
+
+    // The composer grows with its content up to a few lines
+    useEffect(() => {
+      const textarea = inputRef.current;
+      if (!textarea) return;
+      textarea.style.height = "auto";
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }, [messageInput]);
 
+    // Enter sends, Shift+Enter starts a new line
     const handleKeyDown = useCallback(
       (e: React.KeyboardEvent) => {
-        if (e.key === "Enter" && !e.shiftKey) {
+        if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
           e.preventDefault();
           handleSend();
+        } else if (e.key === "Escape" && (editing || replyingTo)) {
+          e.preventDefault();
+          cancelComposerMode();
         }
       },
-      [handleSend]
+      [handleSend, cancelComposerMode, editing, replyingTo]
     );
 
-    return (
-      <div
-        className={cn(
-          "flex flex-col bg-background",
-          isMobile ? "fixed inset-0 z-50" : "w-80 border-l border-border"
-        )}
-      >
-        {/* Header */}
-        <div className="p-4 border-b border-border flex items-center justify-between flex-shrink-0">
-          <div className="flex-1 min-w-0">
-            <h2 className="font-semibold text-base sm:text-lg">Meeting chat</h2>
-            <p className="text-xs text-muted-foreground mt-1">
-              {remoteSocketId ? "2 participants" : "Only you"}
-            </p>
-          </div>
-          {isMobile && onClose && (
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={onClose}
-              className="flex-shrink-0 ml-2"
-            >
-              <X className="w-5 h-5" />
-            </Button>
-          )}
-        </div>
+    const handleFiles = useCallback(
+      (list: FileList | null) => {
+        if (!files || !list || list.length === 0) return;
+        files.sendFiles(Array.from(list));
+        setTimeout(() => {
+          messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+        }, 100);
+      },
+      [files]
+    );
+
+    const handleDragOver = useCallback(
+      (e: React.DragEvent) => {
+        if (!canShareFiles || !e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setIsDragging(true);
+      },
+      [canShareFiles]
+    );
+
+    const handleDrop = useCallback(
+      (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (canShareFiles) handleFiles(e.dataTransfer.files);
+      },
+      [canShareFiles, handleFiles]
+    );
 
+    const chatBody = (
+      <>
         {/* Messages Area */}
         <div ref={messagesContainerRef} className="flex-1 overflow-y-auto p-4">
-          {messages.length === 0 ? (
+          {timeline.length === 0 ? (
             <div className="flex items-center justify-center h-full">
               <p className="text-sm text-muted-foreground text-center py-8">
                 No messages yet
@@ -145,51 +398,201 @@ export const ChatSidebar = memo(
             </div>
           ) : (
             <div className="space-y-3">
-              {messages.map((message) => (
-                <ChatMessage key={message.id} message={message} />
-              ))}
+              {hasMoreHistory && onLoadOlder && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onLoadOlder}
+                    disabled={isLoadingHistory}
+                    className="text-xs text-muted-foreground"
+                  >
+                    {isLoadingHistory ? "Loading..." : "Load earlier messages"}
+                  </Button>
+                </div>
+              )}
+              {timeline.map((item) =>
+                item.kind === "message" ? (
+                  <ChatMessage
+                    key={item.key}
+                    message={item.message}
+                    localParticipantId={localParticipantId}
+                    receipt={receipts?.[item.message.id]}
+                    onReply={hasParticipants ? handleReply : undefined}
+                    onEdit={onEditMessage && handleEdit}
+                    onDelete={onDeleteMessage && handleDelete}
+                    onToggleReaction={onToggleReaction}
+                  />
+                ) : (
+                  <FileTransferItem
+                    key={item.key}
+                    transfer={item.transfer}
+                    onPause={files!.pauseTransfer}
+                    onResume={files!.resumeTransfer}
+                    onCancel={files!.cancelTransfer}
+                  />
+                )
+              )}
               <div ref={messagesEndRef} />
             </div>
           )}
         </div>
 
+        {typingNames.length > 0 && (
+          <p className="px-4 pb-1 text-xs italic text-muted-foreground truncate" aria-live="polite">
+            {typingText(typingNames)}
+          </p>
+        )}
+
         {/* Input Area */}
         <div className="p-3 sm:p-4 border-t border-border flex-shrink-0">
-          <div className="flex gap-2">
-            <Input
+          {(editing || replyingTo) && (
+            <div className="flex items-center gap-2 mb-2 rounded-md bg-muted px-2 py-1.5 text-xs">
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold">
+                  {editing ? "Editing message" : `Replying to ${replyingTo!.sender}`}
+                </p>
+                {replyingTo && (
+                  <p className="truncate text-muted-foreground">{replyingTo.text}</p>
+                )}
+              </div>
+              <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={cancelComposerMode}>
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          )}
+          <div className="flex items-end gap-2">
+            {files && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFiles(e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!canShareFiles}
+                  className="h-10 w-10 sm:h-11 sm:w-11 flex-shrink-0"
+                  title="Share a file"
+                >
+                  <Paperclip className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+            <Textarea
+              ref={inputRef}
+              rows={1}
               value={messageInput}
-              onChange={(e) => setMessageInput(e.target.value)}
+              onChange={(e) => {
+                setMessageInput(e.target.value);
+                if (!editing && e.target.value) onTyping?.();
+              }}
+              onBlur={onStopTyping}
               onKeyDown={handleKeyDown}
               placeholder={
-                remoteSocketId
+                hasParticipants
                   ? "Type a message..."
                   : "Waiting for participant..."
               }
-              className="flex-1 h-10 sm:h-11 text-base"
-              disabled={!remoteSocketId}
+              className="flex-1 min-h-10 sm:min-h-11 max-h-40 resize-none py-2 sm:py-2.5 text-base"
+              disabled={!hasParticipants}
               autoComplete="off"
-              maxLength={500}
+              maxLength={MAX_MESSAGE_LENGTH}
             />
             <Button
               size="icon"
               onClick={handleSend}
-              disabled={!messageInput.trim() || !remoteSocketId}
+              disabled={!messageInput.trim() || !hasParticipants}
               className="h-10 w-10 sm:h-11 sm:w-11 flex-shrink-0"
             >
               <Send className="w-4 h-4" />
             </Button>
           </div>
-          {!remoteSocketId && (
+          {files?.error && (
+            <p className="text-xs text-destructive mt-2">{files.error}</p>
+          )}
+          {!hasParticipants && (
             <p className="text-xs text-muted-foreground mt-2">
               Chat will be available when someone joins
             </p>
           )}
-          {messageInput.length > 450 && (
+          {messageInput.length > MAX_MESSAGE_LENGTH - 50 && (
             <p className="text-xs text-muted-foreground mt-1">
-              {500 - messageInput.length} characters remaining
+              {MAX_MESSAGE_LENGTH - messageInput.length} characters remaining
             </p>
           )}
         </div>
+      </>
+    );
+
+    return (
+      <div
+        className={cn(
+          "relative flex flex-col bg-background",
+          isMobile ? "fixed inset-0 z-50" : "w-80 border-l border-border"
+        )}
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+      >
+        {isDragging && (
+          <div className="absolute inset-2 z-10 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/90 pointer-events-none">
+            <p className="text-sm font-medium">Drop files to share them</p>
+          </div>
+        )}
+
+        {/* Header */}
+        <div className="p-4 border-b border-border flex items-center justify-between flex-shrink-0">
+          <div className="flex-1 min-w-0">
+            <h2 className="font-semibold text-base sm:text-lg">Meeting chat</h2>
+            <p className="text-xs text-muted-foreground mt-1">
+              {hasParticipants
+                ? `${participantCount + 1} participants`
+                : "Only you"}
+            </p>
+          </div>
+          {isMobile && onClose && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="flex-shrink-0 ml-2"
+            >
+              <X className="w-5 h-5" />
+            </Button>
+          )}
+        </div>
+
+        {transcriptPanel ? (
+          <Tabs defaultValue="chat" className="flex flex-col flex-1 min-h-0">
+            <TabsList className="grid grid-cols-2 mx-4 mt-3 flex-shrink-0">
+              <TabsTrigger value="chat">Chat</TabsTrigger>
+              <TabsTrigger value="transcript">Transcript</TabsTrigger>
+            </TabsList>
+            {/* Kept mounted so scroll position and read tracking survive tab switches */}
+            <TabsContent
+              value="chat"
+              forceMount
+              className="flex flex-col flex-1 min-h-0 mt-0 data-[state=inactive]:hidden"
+            >
+              {chatBody}
+            </TabsContent>
+            <TabsContent value="transcript" className="flex flex-col flex-1 min-h-0 mt-0">
+              {transcriptPanel}
+            </TabsContent>
+          </Tabs>
+        ) : (
+          chatBody
+        )}
       </div>
     );
   }
@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import { Line, LineChart, YAxis } from "recharts";
+import { ChevronDown, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import type { ParticipantStats } from "@/hooks/useCallStats";
+import type { CallStatsSample, CandidateType, MediaStats } from "@/services/callStats";
+
+interface ConnectionDetailsProps {
+  participants: { id: string; userName: string }[];
+  stats: Record<string, ParticipantStats>;
+  onClose: () => void;
+}
+
+const bitrateChartConfig = {
+  received: { label: "Received kbps", color: "hsl(var(--chart-1))" },
+  sent: { label: "Sent kbps", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const rttChartConfig = {
+  rtt: { label: "RTT ms", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const candidateLabels: Record<CandidateType, string> = {
+  host: "Direct (LAN)",
+  srflx: "Direct (NAT)",
+  prflx: "Direct (NAT)",
+  relay: "Relayed (TURN)",
+};
+
+const totalBitrate = (audio: MediaStats | null, video: MediaStats | null) =>
+  (audio?.bitrateKbps ?? 0) + (video?.bitrateKbps ?? 0);
+
+const formatValue = (value: number | null | undefined, unit: string) =>
+  value === null || value === undefined ? "–" : `${value}${unit}`;
+
+const describeVideo = (video: MediaStats | null) => {
+  if (!video) return "–";
+  const resolution = video.width && video.height ? `${video.width}×${video.height}` : null;
+  const frameRate = video.frameRate !== null ? `${video.frameRate} fps` : null;
+  return [resolution, frameRate, video.codec].filter(Boolean).join(" · ") || "–";
+};
+
+const describeRoute = (sample: CallStatsSample) => {
+  if (!sample.localCandidateType) return "–";
+  const route = [sample.localCandidateType, sample.remoteCandidateType].filter(Boolean).join(" → ");
+  return sample.protocol ? `${route} (${sample.protocol})` : route;
+};
+
+const StatRow = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-mono text-right">{value}</span>
+  </div>
+);
+
+const ParticipantDetails = ({
+  userName,
+  stats,
+}: {
+  userName: string;
+  stats: ParticipantStats | undefined;
+}) => {
+  const [open, setOpen] = useState(true);
+  const latest = stats?.latest;
+
+  const bitrateData = (stats?.history ?? []).map((sample) => ({
+    time: sample.timestamp,
+    received: totalBitrate(sample.inbound.audio, sample.inbound.video),
+    sent: totalBitrate(sample.outbound.audio, sample.outbound.video),
+  }));
+  const rttData = (stats?.history ?? []).map((sample) => ({
+    time: sample.timestamp,
+    rtt: sample.rttMs ?? 0,
+  }));
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-b border-border last:border-b-0">
+      <CollapsibleTrigger className="w-full flex items-center justify-between gap-2 py-2 text-left">
+        <span className="text-sm font-medium truncate">{userName}</span>
+        <span className="flex items-center gap-2 flex-shrink-0">
+          {latest?.localCandidateType && (
+            <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+              {candidateLabels[latest.localCandidateType]}
+            </Badge>
+          )}
+          <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+        </span>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="pb-3 space-y-3">
+        {!latest ? (
+          <p className="text-xs text-muted-foreground">Collecting statistics…</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 gap-1 text-xs">
+              <StatRow label="Round trip" value={formatValue(latest.rttMs, " ms")} />
+              <StatRow label="Route" value={describeRoute(latest)} />
+              <StatRow
+                label="Received"
+                value={`${totalBitrate(latest.inbound.audio, latest.inbound.video)} kbps`}
+              />
+              <StatRow
+                label="Sent"
+                value={`${totalBitrate(latest.outbound.audio, latest.outbound.video)} kbps`}
+              />
+              <StatRow
+                label="Packet loss in / out"
+                value={`${formatValue(latest.inbound.video?.packetLossPercent ?? latest.inbound.audio?.packetLossPercent, "%")} / ${formatValue(latest.outbound.video?.packetLossPercent ?? latest.outbound.audio?.packetLossPercent, "%")}`}
+              />
+              <StatRow
+                label="Jitter"
+                value={formatValue(latest.inbound.audio?.jitterMs ?? latest.inbound.video?.jitterMs, " ms")}
+              />
+              <StatRow label="Incoming video" value={describeVideo(latest.inbound.video)} />
+              <StatRow label="Outgoing video" value={describeVideo(latest.outbound.video)} />
+              <StatRow
+                label="Audio codec"
+                value={latest.inbound.audio?.codec ?? latest.outbound.audio?.codec ?? "–"}
+              />
+            </div>
+
+            <div>
+              <p className="text-[10px] text-muted-foreground mb-1">Bitrate (kbps)</p>
+              <ChartContainer config={bitrateChartConfig} className="aspect-auto h-16 w-full">
+                <LineChart data={bitrateData} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+                  <YAxis hide domain={[0, "auto"]} />
+                  <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                  <Line dataKey="received" type="monotone" stroke="var(--color-received)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  <Line dataKey="sent" type="monotone" stroke="var(--color-sent)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            </div>
+
+            <div>
+              <p className="text-[10px] text-muted-foreground mb-1">Round trip (ms)</p>
+              <ChartContainer config={rttChartConfig} className="aspect-auto h-12 w-full">
+                <LineChart data={rttData} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+                  <YAxis hide domain={[0, "auto"]} />
+                  <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                  <Line dataKey="rtt" type="monotone" stroke="var(--color-rtt)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            </div>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export const ConnectionDetails = ({ participants, stats, onClose }: ConnectionDetailsProps) => {
+  return (
+    <Card className="absolute top-2 right-2 z-30 w-72 sm:w-80 max-h-[calc(100%-1rem)] overflow-y-auto p-3 bg-background/95 backdrop-blur-sm shadow-lg">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-sm font-semibold">Connection details</h2>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {participants.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-2">
+          Statistics appear once someone joins the call.
+        </p>
+      ) : (
+        participants.map((participant) => (
+          <ParticipantDetails
+            key={participant.id}
+            userName={participant.userName}
+            stats={stats[participant.id]}
+          />
+        ))
+      )}
+    </Card>
+  );
+};
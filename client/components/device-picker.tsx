@@ -0,0 +1,106 @@
+"use client";
+
+import { Camera, Mic, Volume2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DeviceKind } from "@/lib/mediaDevices";
+
+interface DevicePickerProps {
+  videoInputs: MediaDeviceInfo[];
+  audioInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+  selected: Record<DeviceKind, string | null>;
+  onSelect: (kind: DeviceKind, deviceId: string) => void;
+  canSelectOutput?: boolean;
+}
+
+const DeviceSelect = ({
+  id,
+  label,
+  icon: Icon,
+  devices,
+  value,
+  fallbackLabel,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  icon: typeof Camera;
+  devices: MediaDeviceInfo[];
+  value: string | null;
+  fallbackLabel: string;
+  onChange: (deviceId: string) => void;
+}) => {
+  // A saved device that is no longer plugged in shows as the default
+  const current = devices.some((d) => d.deviceId === value) ? value! : undefined;
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="text-xs sm:text-sm flex items-center gap-1.5">
+        <Icon className="w-3.5 h-3.5" />
+        {label}
+      </Label>
+      <Select value={current} onValueChange={onChange} disabled={devices.length === 0}>
+        <SelectTrigger id={id} className="h-9 text-xs sm:text-sm">
+          <SelectValue
+            placeholder={devices.length === 0 ? `No ${fallbackLabel} found` : "System default"}
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${fallbackLabel} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export const DevicePicker = ({
+  videoInputs,
+  audioInputs,
+  audioOutputs,
+  selected,
+  onSelect,
+  canSelectOutput = false,
+}: DevicePickerProps) => (
+  <div className="grid gap-3 sm:grid-cols-2">
+    <DeviceSelect
+      id="camera-select"
+      label="Camera"
+      icon={Camera}
+      devices={videoInputs}
+      value={selected.videoinput}
+      fallbackLabel="camera"
+      onChange={(deviceId) => onSelect("videoinput", deviceId)}
+    />
+    <DeviceSelect
+      id="microphone-select"
+      label="Microphone"
+      icon={Mic}
+      devices={audioInputs}
+      value={selected.audioinput}
+      fallbackLabel="microphone"
+      onChange={(deviceId) => onSelect("audioinput", deviceId)}
+    />
+    {canSelectOutput && (
+      <DeviceSelect
+        id="speaker-select"
+        label="Speaker"
+        icon={Volume2}
+        devices={audioOutputs}
+        value={selected.audiooutput}
+        fallbackLabel="speaker"
+        onChange={(deviceId) => onSelect("audiooutput", deviceId)}
+      />
+    )}
+  </div>
+);
@@ -0,0 +1,114 @@
+"use client";
+
+import { memo } from "react";
+import { Download, FileIcon, Pause, Play, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { FileTransfer } from "@/services/fileTransfer";
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const statusLabels: Record<FileTransfer["status"], string> = {
+  transferring: "Sending",
+  paused: "Paused",
+  verifying: "Verifying…",
+  complete: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+interface FileTransferItemProps {
+  transfer: FileTransfer;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+// A shared file in the chat: progress while it moves, then the image or a download link
+export const FileTransferItem = memo(({ transfer, onPause, onResume, onCancel }: FileTransferItemProps) => {
+  const isLocal = transfer.direction === "outgoing";
+  const isImage = transfer.mimeType.startsWith("image/");
+  const percent = transfer.size > 0 ? Math.round((transfer.transferredBytes / transfer.size) * 100) : 100;
+  const inProgress = transfer.status === "transferring" || transfer.status === "paused";
+  const canRetry = !isLocal && transfer.status === "failed";
+  const status =
+    transfer.status === "transferring" && !isLocal ? "Receiving" : statusLabels[transfer.status];
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg p-3 break-words",
+        isLocal ? "bg-primary text-primary-foreground ml-4" : "bg-muted mr-4"
+      )}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <p className="text-xs font-semibold">{isLocal ? "You" : transfer.senderName}</p>
+        <p className="text-[10px] opacity-70">
+          {transfer.timestamp.toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </p>
+      </div>
+
+      {isImage && transfer.url && transfer.status !== "cancelled" && (
+        <a href={transfer.url} download={transfer.name} title={`Download ${transfer.name}`}>
+          <img
+            src={transfer.url}
+            alt={transfer.name}
+            className="rounded-md mb-2 max-h-48 w-full object-contain bg-black/10"
+          />
+        </a>
+      )}
+
+      <div className="flex items-center gap-2">
+        <FileIcon className="w-4 h-4 flex-shrink-0 opacity-80" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate" title={transfer.name}>
+            {transfer.name}
+          </p>
+          <p className="text-[10px] opacity-70">
+            {formatSize(transfer.size)} · {transfer.error ?? status}
+            {inProgress && ` · ${percent}%`}
+          </p>
+        </div>
+
+        {transfer.status === "transferring" && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onPause(transfer.id)} title="Pause">
+            <Pause className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        {(transfer.status === "paused" || canRetry) && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onResume(transfer.id)} title="Resume">
+            {canRetry ? <RotateCcw className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+          </Button>
+        )}
+        {(inProgress || canRetry) && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onCancel(transfer.id)} title="Cancel">
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        {!isLocal && !isImage && transfer.status === "complete" && transfer.url && (
+          <Button asChild variant="ghost" size="icon" className="h-7 w-7" title="Download">
+            <a href={transfer.url} download={transfer.name}>
+              <Download className="w-3.5 h-3.5" />
+            </a>
+          </Button>
+        )}
+      </div>
+
+      {(inProgress || transfer.status === "verifying") && (
+        <Progress
+          value={percent}
+          className={cn("h-1.5 mt-2", isLocal && "bg-primary-foreground/30 [&>div]:bg-primary-foreground")}
+        />
+      )}
+    </div>
+  );
+});
+
+FileTransferItem.displayName = "FileTransferItem";
@@ -1,9 +1,11 @@
 "use client";
 
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import {
   Card,
   CardContent,
@@ -13,6 +15,9 @@ import {
 } from "@/components/ui/card";
 import { Video } from "lucide-react";
 import { useHome } from "@/hooks/useHome";
+import { createRoom } from "@/services/rooms";
+import { saveHostKey } from "@/lib/hostKey";
+import { PASSCODE_LENGTH } from "@/lib/passcode";
 
 export default function Home() {
   const {
@@ -24,6 +29,10 @@ export default function Home() {
     joinPreviewPage,
   } = useHome();
   const router = useRouter();
+  const [isCreating, setIsCreating] = useState(false);
+  // Optional; only used when creating a meeting
+  const [passcode, setPasscode] = useState("");
+  const hasPartialPasscode = passcode.length > 0 && passcode.length < PASSCODE_LENGTH;
 
   const handleJoinMeeting = () => {
     if (userName.trim() && room.trim()) {
@@ -31,13 +40,25 @@ export default function Home() {
     }
   };
 
-  const handleCreateMeeting = () => {
-    if (userName.trim()) {
-      const randomCode = Math.random().toString(36).substring(2, 10);
+  const handleCreateMeeting = async () => {
+    if (!userName.trim() || isCreating || hasPartialPasscode) return;
+
+    setIsCreating(true);
+    try {
+      // Rooms must exist on the server before anyone can join them
+      const createdRoom = await createRoom({
+        createdBy: userName.trim(),
+        passcode: passcode || undefined,
+      });
+      if (createdRoom.hostKey) saveHostKey(createdRoom.id, createdRoom.hostKey);
       const url = `/preview/${encodeURIComponent(
-        randomCode
+        createdRoom.id
       )}?username=${encodeURIComponent(userName)}&action=create`;
       router.push(url);
+    } catch (error) {
+      console.error("Error creating meeting:", error);
+      alert("Unable to create a meeting right now. Please try again.");
+      setIsCreating(false);
     }
   };
 
@@ -107,6 +128,29 @@ export default function Home() {
                     className="flex-1 h-10 sm:h-11 text-base"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label className="text-sm sm:text-base">
+                    Meeting passcode (optional)
+                  </Label>
+                  <InputOTP
+                    maxLength={PASSCODE_LENGTH}
+                    inputMode="numeric"
+                    pattern="^[0-9]*$"
+                    value={passcode}
+                    onChange={setPasscode}
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: PASSCODE_LENGTH }, (_, i) => (
+                        <InputOTPSlot key={i} index={i} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    {hasPartialPasscode
+                      ? `The passcode needs ${PASSCODE_LENGTH} digits`
+                      : "Set one when creating a meeting to ask joiners for it"}
+                  </p>
+                </div>
                 <div className="flex flex-col sm:flex-row gap-3 pt-2">
                   <Button
                     onClick={handleJoinMeeting}
@@ -119,11 +163,11 @@ export default function Home() {
                   </Button>
                   <Button
                     onClick={handleCreateMeeting}
-                    disabled={!userName.trim()}
+                    disabled={!userName.trim() || isCreating || hasPartialPasscode}
                     className="flex-1 h-11 sm:h-12 text-base"
                     size="lg"
                   >
-                    Create meeting
+                    {isCreating ? "Creating..." : "Create meeting"}
                   </Button>
                 </div>
               </CardContent>
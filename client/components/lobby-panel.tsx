@@ -0,0 +1,54 @@
+"use client";
+
+import { Check, DoorOpen, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { LobbyGuest } from "@/hooks/useLobby";
+
+interface LobbyPanelProps {
+  waiting: LobbyGuest[];
+  onAdmit: (id: string) => void;
+  onDeny: (id: string) => void;
+}
+
+// Shown to the host while people are waiting to be let in
+export const LobbyPanel = ({ waiting, onAdmit, onDeny }: LobbyPanelProps) => {
+  if (waiting.length === 0) return null;
+
+  return (
+    <Card className="fixed top-16 sm:top-20 right-2 sm:right-4 z-40 p-3 sm:p-4 w-72 shadow-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <DoorOpen className="w-4 h-4 text-primary" />
+        <p className="text-sm font-semibold">
+          {waiting.length === 1 ? "1 person is waiting" : `${waiting.length} people are waiting`}
+        </p>
+      </div>
+      <ul className="space-y-2 max-h-60 overflow-y-auto">
+        {waiting.map((guest) => (
+          <li key={guest.id} className="flex items-center gap-2">
+            <p className="flex-1 min-w-0 text-sm truncate" title={guest.userName}>
+              {guest.userName}
+            </p>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 flex-shrink-0"
+              onClick={() => onDeny(guest.id)}
+              title={`Deny ${guest.userName}`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+            <Button
+              size="sm"
+              className="h-7 gap-1 flex-shrink-0"
+              onClick={() => onAdmit(guest.id)}
+            >
+              <Check className="w-3.5 h-3.5" />
+              Admit
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+};
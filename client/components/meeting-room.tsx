@@ -2,7 +2,7 @@
 
 import type React from "react";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -19,25 +19,68 @@ import {
   Check,
   Maximize,
   FlipHorizontal,
+  ScreenShare,
+  ScreenShareOff,
+  Settings,
+  Circle,
+  WifiOff,
+  Loader2,
+  Camera,
+  Lock,
+  LockOpen,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useRoom } from "@/hooks/useRoom";
 import { ChatSidebar } from "./chatSideBar";
-import { useSpeechCaptions } from "@/hooks/useSpeechRecognition";
+import { ParticipantTile } from "./participant-tile";
+import type { Participant } from "@/hooks/useSignaling";
+import { useMediaDevices } from "@/hooks/useMediaDevices";
+import { MeetingSettingsDialog } from "./meeting-settings-dialog";
+import { ConnectionDetails } from "./connection-details";
+import { useCallStats } from "@/hooks/useCallStats";
+import { useAdaptiveQuality } from "@/hooks/useAdaptiveQuality";
+import { SignalBars } from "./signal-bars";
+import { useRecording } from "@/hooks/useRecording";
+import { useFileTransfers } from "@/hooks/useFileTransfers";
+import { useChatStatus } from "@/hooks/useChatStatus";
+import { RecordingReady } from "./recording-indicator";
+import { ActivityBanner } from "./activity-banner";
+import { ActivityConsentDialog } from "./activity-consent-dialog";
+import type { RecordingSource } from "@/services/meetingRecorder";
+import { useCaptions } from "@/hooks/useCaptions";
+import { TranscriptPanel } from "./transcript-panel";
+import { TranscriptExportDialog } from "./transcript-export-dialog";
+import { useLobby } from "@/hooks/useLobby";
+import { LobbyPanel } from "./lobby-panel";
+import { useRoomLock } from "@/hooks/useRoomLock";
 import { Subtitles } from "lucide-react";
 
+const joinErrorTitles = {
+  full: "Room Full",
+  locked: "Room Locked",
+  expired: "Meeting Expired",
+  "not-found": "Room Not Found",
+  "not-admitted": "Waiting Room",
+  "passcode-required": "Passcode Required",
+  "passcode-invalid": "Wrong Passcode",
+  "passcode-locked": "Too Many Attempts",
+  "name-reserved": "Name Not Allowed",
+  closed: "Meeting Ended",
+} as const;
+
 export default function MeetingRoom() {
   const router = useRouter();
 
   const {
     localUserName,
-    remoteUserName,
-    remoteSocketId,
+    participants,
     room,
     myStream,
-    remoteStream,
-    myVideoRef,
-    remoteVideoRef,
+    screenStream,
+    isScreenSharing,
+    startScreenShare,
+    stopScreenShare,
+    switchDevice,
     endCall,
     toggleVideo,
     toggleAudio,
@@ -46,16 +89,29 @@ export default function MeetingRoom() {
     connectionState,
     messages,
     sendMessage,
-    roomFullError,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    hasMoreHistory,
+    isLoadingHistory,
+    loadOlderMessages,
+    joinError,
+    recoveryStatus,
+    recoveringIds,
+    lostIds,
+    retryConnection,
+    remoteActivities,
+    consentRequest,
+    respondToConsent,
+    startActivity,
+    stopActivity,
   } = useRoom();
 
-  const {
-    captionsEnabled,
-    currentCaption,
-    toggleCaptions,
-    isSupported: captionsSupported,
-  } = useSpeechCaptions(remoteStream);
-
+  const participantList = Object.values(participants);
+  const participantCount = participantList.length;
+  // The first remote participant sharing a screen gets the large tile
+  const presenter =
+    participantList.find((p) => p.screenStream) ?? null;
   const [isVideoOn, setIsVideoOn] = useState(true);
   const [isAudioOn, setIsAudioOn] = useState(true);
   const [showChat, setShowChat] = useState(false);
@@ -66,6 +122,81 @@ export default function MeetingRoom() {
     "desktop"
   );
   const [mirrorLocalVideo, setMirrorLocalVideo] = useState(false);
+  const [screenShareSupported, setScreenShareSupported] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showConnectionDetails, setShowConnectionDetails] = useState(false);
+
+  // Each speaker captions their own microphone; this viewer decides whether to show them
+  const captionState = useCaptions({
+    userName: localUserName,
+    micEnabled: isAudioOn,
+    stream: myStream,
+  });
+  const {
+    captionsEnabled,
+    toggleCaptions,
+    captions,
+    transcript,
+    isSupported: captionsSupported,
+  } = captionState;
+  const [showTranscriptExport, setShowTranscriptExport] = useState(false);
+
+  // Host only: people waiting to be let in
+  const lobby = useLobby();
+  const roomLock = useRoomLock(room);
+
+  // Turning captions on has everyone else transcribed, so the room is told
+  useEffect(() => {
+    if (!captionsEnabled) return;
+    startActivity("transcribing");
+    return () => stopActivity("transcribing");
+  }, [captionsEnabled, startActivity, stopActivity]);
+
+  const mediaDevices = useMediaDevices();
+
+  const participantIds = useMemo(() => Object.keys(participants), [participants]);
+  // Feeds both the adaptive video quality and the connection details panel
+  const callStats = useCallStats({ participantIds });
+  const { levels: qualityLevels, signal } = useAdaptiveQuality(callStats);
+
+  // What goes into a recording, in the same order as the tiles on screen
+  const getRecordingSources = useCallback((): RecordingSource[] => {
+    const sources: RecordingSource[] = [];
+    participantList.forEach((p) => {
+      if (p.screenStream) {
+        sources.push({ id: `${p.id}-screen`, label: p.userName, stream: p.screenStream, kind: "screen", showVideo: true });
+      }
+    });
+    if (screenStream) {
+      sources.push({ id: "local-screen", label: localUserName, stream: screenStream, kind: "screen", showVideo: true });
+    }
+    participantList.forEach((p) => {
+      sources.push({ id: p.id, label: p.userName, stream: p.stream, kind: "camera", showVideo: true });
+    });
+    sources.push({
+      id: "local",
+      label: localUserName,
+      stream: myStream,
+      kind: "camera",
+      showVideo: isVideoOn,
+      mirrored: mirrorLocalVideo,
+    });
+    return sources;
+  }, [participantList, screenStream, myStream, localUserName, isVideoOn, mirrorLocalVideo]);
+
+  const {
+    isSupported: recordingSupported,
+    isRecording,
+    startedAt: recordingStartedAt,
+    startRecording,
+    stopRecording,
+    recording,
+    discardRecording,
+    takeScreenshot,
+  } = useRecording({ room, getSources: getRecordingSources, startActivity, stopActivity });
+
+  const files = useFileTransfers({ userName: localUserName });
+  const chatStatus = useChatStatus({ messages, participants });
 
   // Detect device type
   useEffect(() => {
@@ -81,6 +212,8 @@ export default function MeetingRoom() {
     };
 
     detectDevice();
+    // getDisplayMedia is missing on most mobile browsers
+    setScreenShareSupported(!!navigator.mediaDevices?.getDisplayMedia);
     window.addEventListener("resize", detectDevice);
     return () => window.removeEventListener("resize", detectDevice);
   }, []);
@@ -92,15 +225,18 @@ export default function MeetingRoom() {
     }
   }, [myStream, isVideoEnabled, isAudioEnabled]);
 
-  const pipVideoRef = useCallback(
-    (el: HTMLVideoElement | null) => {
-      if (el && myStream) {
-        el.srcObject = myStream;
-        el.play().catch((e) => console.log("PIP play error:", e));
-      }
-    },
-    [myStream]
-  );
+  // Remote participants plus the local tile
+  const tileCount = participantCount + 1;
+  const gridColumns =
+    deviceType === "mobile"
+      ? tileCount <= 2
+        ? "grid-cols-1"
+        : "grid-cols-2"
+      : tileCount <= 1
+      ? "grid-cols-1"
+      : tileCount <= 4
+      ? "grid-cols-2"
+      : "grid-cols-3";
 
   const waitingVideoRef = useCallback(
     (el: HTMLVideoElement | null) => {
@@ -131,9 +267,25 @@ export default function MeetingRoom() {
     setIsAudioOn(newState ?? false);
   };
 
+  const handleToggleScreenShare = () => {
+    if (isScreenSharing) {
+      stopScreenShare();
+    } else {
+      startScreenShare();
+    }
+  };
+
   const handleLeaveMeeting = () => {
+    // The export dialog doubles as the confirmation
+    if (transcript.length > 0) {
+      setShowTranscriptExport(true);
+      return;
+    }
+
     const confirmEnd = window.confirm(
-      "Are you sure you want to leave? Your call will end."
+      isRecording
+        ? "Are you sure you want to leave? Your call will end and the unsaved recording will be lost."
+        : "Are you sure you want to leave? Your call will end."
     );
     if (confirmEnd) {
       endCall();
@@ -163,9 +315,98 @@ export default function MeetingRoom() {
     }
   };
 
+  const thumbnailClass = cn(
+    "flex-shrink-0",
+    deviceType === "mobile" ? "w-24 h-20" : "w-40 h-28 sm:w-48 sm:h-32"
+  );
+
+  const renderRemoteTile = (participant: Participant, className?: string) => (
+    <ParticipantTile
+      key={participant.id}
+      userName={participant.userName}
+      stream={participant.stream}
+      audioOutputId={mediaDevices.selected.audiooutput}
+      className={className}
+      statusText={
+        participant.connectionState === "connected"
+          ? undefined
+          : lostIds.includes(participant.id)
+          ? "Connection lost"
+          : recoveringIds.includes(participant.id)
+          ? "Reconnecting…"
+          : "Connecting..."
+      }
+    >
+      {captionsEnabled && captions[participant.id] && (
+        <div className="absolute bottom-12 sm:bottom-16 left-1/2 -translate-x-1/2 max-w-[90%] bg-black/90 text-white px-3 sm:px-6 py-2 sm:py-3 rounded-lg text-xs sm:text-base backdrop-blur-sm shadow-lg">
+          <span className={cn(!captions[participant.id].final && "opacity-80")}>
+            {captions[participant.id].text}
+          </span>
+        </div>
+      )}
+
+      <div className="absolute bottom-2 sm:bottom-4 left-2 sm:left-4 bg-background/80 backdrop-blur-sm px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg flex items-center gap-1.5 sm:gap-2">
+        <SignalBars strength={signal[participant.id] ?? 0} />
+        <p className="text-xs sm:text-sm font-medium">
+          {participant.userName}
+        </p>
+        {qualityLevels[participant.id] === "audio-only" && (
+          <Badge
+            variant="secondary"
+            className="text-[10px] px-1 py-0"
+            title="Your video to this participant is paused until the connection improves"
+          >
+            Audio only
+          </Badge>
+        )}
+      </div>
+    </ParticipantTile>
+  );
+
+  const renderLocalTile = (className?: string) => (
+    <ParticipantTile
+      key="local"
+      userName={localUserName}
+      stream={myStream}
+      muted
+      mirrored={mirrorLocalVideo}
+      showVideo={isVideoOn}
+      className={className}
+    >
+      <div className="absolute bottom-2 sm:bottom-4 left-2 sm:left-4 bg-background/80 backdrop-blur-sm px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg flex items-center gap-1 sm:gap-2">
+        <p className="text-xs sm:text-sm font-medium">
+          {localUserName}
+        </p>
+        <Badge
+          variant="secondary"
+          className="text-[10px] sm:text-xs px-1 py-0"
+        >
+          You
+        </Badge>
+        {!isAudioOn && (
+          <MicOff className="w-3 h-3 text-destructive" />
+        )}
+      </div>
+
+      {isVideoOn && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setMirrorLocalVideo(!mirrorLocalVideo)}
+          className="absolute top-2 right-2 h-7 w-7 bg-background/80 backdrop-blur-sm hover:bg-background/90"
+          title={
+            mirrorLocalVideo ? "Show actual view" : "Show mirror view"
+          }
+        >
+          <FlipHorizontal className="w-3.5 h-3.5" />
+        </Button>
+      )}
+    </ParticipantTile>
+  );
+
   return (
     <div className="h-screen flex flex-col bg-background">
-      {roomFullError && (
+      {joinError && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
             <div className="flex items-center gap-3 mb-4">
@@ -173,12 +414,14 @@ export default function MeetingRoom() {
                 <Users className="w-6 h-6 text-red-600" />
               </div>
               <div>
-                <h2 className="text-xl font-bold text-gray-900">Room Full</h2>
+                <h2 className="text-xl font-bold text-gray-900">
+                  {joinErrorTitles[joinError.reason]}
+                </h2>
                 <p className="text-sm text-gray-500">Unable to join meeting</p>
               </div>
             </div>
 
-            <p className="text-gray-700 mb-6">{roomFullError}</p>
+            <p className="text-gray-700 mb-6">{joinError.message}</p>
 
             <button
               onClick={() => router.push("/")}
@@ -190,6 +433,60 @@ export default function MeetingRoom() {
         </div>
       )}
 
+      {!joinError && recoveryStatus !== "idle" && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center">
+                {recoveryStatus === "reconnecting" ? (
+                  <Loader2 className="w-6 h-6 text-yellow-600 animate-spin" />
+                ) : (
+                  <WifiOff className="w-6 h-6 text-yellow-600" />
+                )}
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  {recoveryStatus === "reconnecting" ? "Reconnecting…" : "Connection Lost"}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {recoveryStatus === "reconnecting"
+                    ? "Your camera and microphone stay on"
+                    : "We couldn't reach the meeting server"}
+                </p>
+              </div>
+            </div>
+
+            {recoveryStatus === "failed" && (
+              <div className="flex gap-3">
+                <Button variant="outline" className="flex-1" onClick={endCall}>
+                  Leave
+                </Button>
+                <Button className="flex-1" onClick={retryConnection}>
+                  Try Again
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <MeetingSettingsDialog
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        devices={mediaDevices}
+        onSwitchDevice={switchDevice}
+        captions={captionState}
+      />
+
+      <TranscriptExportDialog
+        open={showTranscriptExport}
+        onOpenChange={setShowTranscriptExport}
+        entries={transcript}
+        room={room}
+        warning={isRecording ? "The unsaved recording will be lost as well." : undefined}
+        onLeave={endCall}
+      />
+
       {/* Header */}
       <header className="border-b border-border px-3 sm:px-4 py-2 sm:py-3 flex items-center justify-between">
         <div className="flex items-center gap-2 sm:gap-3 min-w-0 flex-1">
@@ -220,28 +517,55 @@ export default function MeetingRoom() {
           </div>
         </div>
         <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
-          <Badge
-            variant={connectionState === "connected" ? "default" : "secondary"}
-            className="gap-1 text-[10px] sm:text-xs px-1.5 sm:px-2 py-0.5"
+          <button
+            type="button"
+            onClick={() => setShowConnectionDetails((open) => !open)}
+            title="Connection details"
           >
-            {connectionState === "connected" ? "🟢" : "🟡"}
-            <span className="hidden sm:inline">{connectionState}</span>
-          </Badge>
+            <Badge
+              variant={connectionState === "connected" ? "default" : "secondary"}
+              className="gap-1 text-[10px] sm:text-xs px-1.5 sm:px-2 py-0.5 cursor-pointer"
+            >
+              {connectionState === "connected" ? "🟢" : "🟡"}
+              <span className="hidden sm:inline">{connectionState}</span>
+            </Badge>
+          </button>
           <Badge
             variant="secondary"
             className="gap-1 text-[10px] sm:text-xs px-1.5 sm:px-2 py-0.5"
           >
             <Users className="w-2.5 h-2.5 sm:w-3 sm:h-3" />
-            {remoteSocketId ? "2" : "1"}
+            {participantCount + 1}
           </Badge>
         </div>
       </header>
 
+      <ActivityBanner
+        recordingStartedAt={recordingStartedAt}
+        remoteActivities={remoteActivities}
+        onStopRecording={stopRecording}
+      />
+
+      <ActivityConsentDialog request={consentRequest} onRespond={respondToConsent} />
+
+      {recording && <RecordingReady recording={recording} onDismiss={discardRecording} />}
+      {lobby.isHost && (
+        <LobbyPanel waiting={lobby.waiting} onAdmit={lobby.admit} onDeny={lobby.deny} />
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
         {/* Video Area */}
         <div className="flex-1 p-2 sm:p-4 relative">
-          {!remoteSocketId || !remoteStream ? (
+          {showConnectionDetails && (
+            <ConnectionDetails
+              participants={participantList}
+              stats={callStats}
+              onClose={() => setShowConnectionDetails(false)}
+            />
+          )}
+
+          {participantCount === 0 ? (
             // Waiting state - Full preview
             <div className="h-full flex flex-col items-center justify-center gap-3 sm:gap-4">
               <Card className="relative w-full max-w-4xl h-full max-h-[70vh] bg-black">
@@ -342,134 +666,61 @@ export default function MeetingRoom() {
             </div>
           ) : (
             // Active call state
-            <div className="h-full w-full relative">
-              {/* Remote participant video - Full screen */}
-              <Card className="absolute inset-0 bg-black overflow-hidden">
-                <video
-                  ref={remoteVideoRef}
-                  autoPlay
-                  playsInline
-                  className="w-full h-full object-contain"
-                />
-                {!remoteStream && (
-                  <div className="absolute inset-0 bg-gradient-to-br from-primary/10 to-primary/5 flex items-center justify-center">
-                    <div className="text-center">
-                      <div className="w-20 h-20 sm:w-32 sm:h-32 rounded-full bg-primary/20 flex items-center justify-center mx-auto mb-3 sm:mb-4">
-                        <span className="text-3xl sm:text-5xl font-semibold text-primary">
-                          {remoteUserName.charAt(0).toUpperCase()}
-                        </span>
-                      </div>
-                      <p className="text-lg sm:text-xl font-medium text-white">
-                        {remoteUserName}
-                      </p>
-                    </div>
-                  </div>
-                )}
-
-                {/* {captionsEnabled && currentCaption && (
-                  <div className="absolute bottom-2 sm:bottom-4 left-1/2 -translate-x-1/2 max-w-[90%] bg-black/90 text-white px-3 sm:px-6 py-2 sm:py-3 rounded-lg text-xs sm:text-base backdrop-blur-sm shadow-lg">
-                    {currentCaption}
-                  </div>
-                )} */}
-
-                <div className="absolute bottom-2 sm:bottom-4 left-2 sm:left-4 bg-background/80 backdrop-blur-sm px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg">
-                  <p className="text-xs sm:text-sm font-medium">
-                    {remoteUserName}
+            <div className="h-full w-full flex flex-col gap-2 sm:gap-3">
+              {isScreenSharing && (
+                <div className="flex items-center justify-between gap-2 bg-primary/10 border border-primary/30 px-3 py-1.5 rounded-lg">
+                  <p className="text-xs sm:text-sm font-medium flex items-center gap-2">
+                    <ScreenShare className="w-4 h-4 text-primary" />
+                    You are presenting your screen
                   </p>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={stopScreenShare}
+                    className="h-7 text-xs"
+                  >
+                    Stop presenting
+                  </Button>
                 </div>
-
-                {/* {captionsEnabled && (
-                  <div className="absolute top-2 sm:top-4 right-2 sm:right-4 bg-green-500/90 backdrop-blur-sm px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg flex items-center gap-1 sm:gap-2">
-                    <Subtitles className="w-3 h-3 sm:w-4 sm:h-4 text-white" />
-                    <span className="text-[10px] sm:text-xs font-medium text-white">
-                      Captions Active
-                    </span>
-                  </div>
-                )} */}
-              </Card>
-
-              {/* Local video (PIP) - Top right corner, shows full capture */}
-              <Card
-                className={cn(
-                  "absolute z-10 bg-black overflow-hidden shadow-2xl border-2 border-background",
-                  // Position based on device
-                  deviceType === "mobile"
-                    ? "top-2 right-2 w-24 h-32"
-                    : deviceType === "tablet"
-                    ? "top-4 right-4 w-32 h-40"
-                    : "top-4 right-4 w-48 h-64"
-                )}
-              >
-                {isVideoOn && myStream ? (
-                  <video
-                    key="local-pip"
-                    ref={pipVideoRef}
-                    autoPlay
-                    playsInline
-                    muted
-                    className="w-full h-full object-contain"
-                    style={{
-                      transform: mirrorLocalVideo ? "scaleX(-1)" : "none",
-                    }}
-                  />
-                ) : (
-                  <div className="absolute inset-0 bg-muted flex items-center justify-center">
-                    <div className="text-center">
-                      <div
-                        className={cn(
-                          "rounded-full bg-primary/20 flex items-center justify-center mx-auto mb-1",
-                          deviceType === "mobile" ? "w-8 h-8" : "w-12 h-12"
-                        )}
-                      >
-                        <span
-                          className={cn(
-                            "font-semibold text-primary",
-                            deviceType === "mobile" ? "text-sm" : "text-xl"
-                          )}
-                        >
-                          {localUserName.charAt(0).toUpperCase()}
-                        </span>
-                      </div>
-                      <p
-                        className={cn(
-                          "font-medium px-1 text-white",
-                          deviceType === "mobile" ? "text-[8px]" : "text-xs"
-                        )}
-                      >
-                        {localUserName}
+              )}
+
+              {presenter ? (
+                // Someone is presenting - screen large, cameras as thumbnails
+                <>
+                  <ParticipantTile
+                    userName={presenter.userName}
+                    stream={presenter.screenStream}
+                    className="flex-1 min-h-0"
+                  >
+                    <div className="absolute top-2 sm:top-4 left-2 sm:left-4 bg-background/80 backdrop-blur-sm px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg flex items-center gap-1.5">
+                      <ScreenShare className="w-3 h-3 sm:w-4 sm:h-4" />
+                      <p className="text-xs sm:text-sm font-medium">
+                        {presenter.userName} is presenting
                       </p>
                     </div>
-                  </div>
-                )}
+                  </ParticipantTile>
 
-                <div className="absolute bottom-1 left-1 bg-background/80 backdrop-blur-sm px-1.5 py-0.5 rounded text-[8px] sm:text-[10px] font-medium flex items-center gap-1">
-                  You
-                  {!isAudioOn && (
-                    <MicOff className="w-2 h-2 text-destructive" />
+                  <div className="flex gap-2 sm:gap-3 overflow-x-auto flex-shrink-0">
+                    {participantList.map((participant) =>
+                      renderRemoteTile(participant, thumbnailClass)
+                    )}
+                    {renderLocalTile(thumbnailClass)}
+                  </div>
+                </>
+              ) : (
+                // Grid of every participant
+                <div
+                  className={cn(
+                    "flex-1 min-h-0 grid gap-2 sm:gap-3 auto-rows-fr",
+                    gridColumns
+                  )}
+                >
+                  {participantList.map((participant) =>
+                    renderRemoteTile(participant)
                   )}
+                  {renderLocalTile()}
                 </div>
-
-                {isVideoOn && (
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => setMirrorLocalVideo(!mirrorLocalVideo)}
-                    className={cn(
-                      "absolute top-1 right-1 bg-background/80 backdrop-blur-sm hover:bg-background/90",
-                      deviceType === "mobile" ? "h-5 w-5 p-0" : "h-6 w-6 p-0"
-                    )}
-                    title={
-                      mirrorLocalVideo ? "Show actual view" : "Show mirror view"
-                    }
-                  >
-                    <FlipHorizontal
-                      className={
-                        deviceType === "mobile" ? "w-2.5 h-2.5" : "w-3 h-3"
-                      }
-                    />
-                  </Button>
-                )}
-              </Card>
+              )}
             </div>
           )}
         </div>
@@ -479,9 +730,24 @@ export default function MeetingRoom() {
           <ChatSidebar
             messages={messages}
             onSendMessage={sendMessage}
-            remoteSocketId={remoteSocketId}
+            onEditMessage={editMessage}
+            onDeleteMessage={deleteMessage}
+            onToggleReaction={toggleReaction}
+            participantCount={participantCount}
+            hasMoreHistory={hasMoreHistory}
+            isLoadingHistory={isLoadingHistory}
+            onLoadOlder={loadOlderMessages}
             isMobile={deviceType === "mobile"}
             onClose={() => setShowChat(false)}
+            files={files}
+            typingNames={chatStatus.typingNames}
+            onTyping={chatStatus.notifyTyping}
+            onStopTyping={chatStatus.stopTyping}
+            receipts={chatStatus.receipts}
+            onMessagesSeen={chatStatus.markRead}
+            transcriptPanel={
+              <TranscriptPanel entries={transcript} captionsEnabled={captionsEnabled} room={room} />
+            }
           />
         )}
       </div>
@@ -521,6 +787,24 @@ export default function MeetingRoom() {
             </span>
           </Button>
 
+          {screenShareSupported && (
+            <Button
+              variant={isScreenSharing ? "default" : "secondary"}
+              size={deviceType === "mobile" ? "icon" : "lg"}
+              onClick={handleToggleScreenShare}
+              className={cn("gap-2", deviceType === "mobile" && "h-10 w-10")}
+            >
+              {isScreenSharing ? (
+                <ScreenShareOff className="w-4 h-4 sm:w-5 sm:h-5" />
+              ) : (
+                <ScreenShare className="w-4 h-4 sm:w-5 sm:h-5" />
+              )}
+              <span className="hidden md:inline">
+                {isScreenSharing ? "Stop Sharing" : "Share Screen"}
+              </span>
+            </Button>
+          )}
+
           <Button
             variant="secondary"
             size={deviceType === "mobile" ? "icon" : "lg"}
@@ -532,32 +816,55 @@ export default function MeetingRoom() {
           >
             <MessageSquare className="w-4 h-4 sm:w-5 sm:h-5" />
             <span className="hidden md:inline">Chat</span>
-            {messages.length > 0 && !showChat && (
-              <Badge className="absolute -top-1 -right-1 h-4 w-4 sm:h-5 sm:w-5 p-0 flex items-center justify-center text-[10px]">
-                {messages.length}
+            {chatStatus.unreadCount > 0 && !showChat && (
+              <Badge className="absolute -top-1 -right-1 h-4 min-w-4 sm:h-5 sm:min-w-5 px-1 flex items-center justify-center text-[10px]">
+                {chatStatus.unreadCount > 99 ? "99+" : chatStatus.unreadCount}
               </Badge>
             )}
           </Button>
+          <Button
+            variant={captionsEnabled ? "default" : "secondary"}
+            size={deviceType === "mobile" ? "icon" : "lg"}
+            onClick={toggleCaptions}
+            disabled={participantCount === 0}
+            className={cn(
+              "gap-2",
+              deviceType === "mobile" && "h-10 w-10",
+              captionsEnabled && "bg-green-600 hover:bg-green-700"
+            )}
+            title={
+              captionsSupported
+                ? "Show live captions of the other participants"
+                : "Show live captions; this browser can not caption your own speech"
+            }
+          >
+            <Subtitles className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span className="hidden md:inline">
+              {captionsEnabled ? "Captions On" : "Captions Off"}
+            </span>
+          </Button>
+          {lobby.isHost && (
+            <Button
+              variant={roomLock.locked ? "default" : "secondary"}
+              size={deviceType === "mobile" ? "icon" : "lg"}
+              onClick={roomLock.toggleLocked}
+              disabled={roomLock.isUpdating}
+              className={cn("gap-2", deviceType === "mobile" && "h-10 w-10")}
+              title={roomLock.locked ? "Let people join again" : "Stop anyone else from joining"}
+            >
+              {roomLock.locked ? (
+                <Lock className="w-4 h-4 sm:w-5 sm:h-5" />
+              ) : (
+                <LockOpen className="w-4 h-4 sm:w-5 sm:h-5" />
+              )}
+              <span className="hidden lg:inline">
+                {roomLock.locked ? "Locked" : "Lock"}
+              </span>
+            </Button>
+          )}
           {/* 
           {deviceType !== "mobile" && (
             <>
-              <Button
-                variant={captionsEnabled ? "default" : "secondary"}
-                size="lg"
-                onClick={toggleCaptions}
-                disabled={!remoteStream || !captionsSupported}
-                className={cn(
-                  "gap-2",
-                  captionsEnabled && "bg-green-600 hover:bg-green-700"
-                )}
-                {...(!captionsSupported && {
-                  title: "Captions not supported in this browser",
-                })}
-              >
-                <Subtitles className="w-5 h-5" />
-                {captionsEnabled ? "Captions On" : "Captions Off"}
-              </Button>
-
               <Button
                 variant="secondary"
                 size="lg"
@@ -570,6 +877,45 @@ export default function MeetingRoom() {
             </>
           )} */}
 
+          {recordingSupported && (
+            <Button
+              variant={isRecording ? "destructive" : "secondary"}
+              size={deviceType === "mobile" ? "icon" : "lg"}
+              onClick={isRecording ? stopRecording : startRecording}
+              className={cn("gap-2", deviceType === "mobile" && "h-10 w-10")}
+              title={isRecording ? "Stop recording" : "Record this meeting on your device"}
+            >
+              <Circle className={cn("w-4 h-4 sm:w-5 sm:h-5", isRecording ? "fill-current" : "fill-red-500 text-red-500")} />
+              <span className="hidden lg:inline">
+                {isRecording ? "Stop Recording" : "Record"}
+              </span>
+            </Button>
+          )}
+
+          {deviceType !== "mobile" && (
+            <Button
+              variant="secondary"
+              size="lg"
+              onClick={takeScreenshot}
+              className="gap-2"
+              title="Save a screenshot of the meeting"
+            >
+              <Camera className="w-4 h-4 sm:w-5 sm:h-5" />
+              <span className="hidden lg:inline">Screenshot</span>
+            </Button>
+          )}
+
+          <Button
+            variant="secondary"
+            size={deviceType === "mobile" ? "icon" : "lg"}
+            onClick={() => setShowSettings(true)}
+            className={cn("gap-2", deviceType === "mobile" && "h-10 w-10")}
+            title="Settings"
+          >
+            <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span className="hidden lg:inline">Settings</span>
+          </Button>
+
           <div className="flex-1" />
 
           <Button
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { DevicePicker } from "./device-picker";
+import { CaptionSettings } from "./caption-settings";
+import type { useMediaDevices } from "@/hooks/useMediaDevices";
+import type { useCaptions } from "@/hooks/useCaptions";
+import type { DeviceKind } from "@/lib/mediaDevices";
+
+interface MeetingSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  devices: ReturnType<typeof useMediaDevices>;
+  onSwitchDevice: (kind: "videoinput" | "audioinput", deviceId: string) => Promise<boolean>;
+  captions: ReturnType<typeof useCaptions>;
+}
+
+export const MeetingSettingsDialog = ({
+  open,
+  onOpenChange,
+  devices,
+  onSwitchDevice,
+  captions,
+}: MeetingSettingsDialogProps) => {
+  const { refresh, selectDevice } = devices;
+
+  // Pick up labels and devices plugged in since the call started
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const handleSelect = async (kind: DeviceKind, deviceId: string) => {
+    if (kind === "audiooutput") {
+      selectDevice(kind, deviceId);
+      return;
+    }
+
+    const switched = await onSwitchDevice(kind, deviceId);
+    if (switched) selectDevice(kind, deviceId);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Choose the camera, microphone and speaker for this call, and how your
+            speech is captioned for others.
+          </DialogDescription>
+        </DialogHeader>
+        <DevicePicker
+          videoInputs={devices.videoInputs}
+          audioInputs={devices.audioInputs}
+          audioOutputs={devices.audioOutputs}
+          selected={devices.selected}
+          onSelect={handleSelect}
+          canSelectOutput={devices.canSelectOutput}
+        />
+        <Separator />
+        <CaptionSettings captions={captions} />
+      </DialogContent>
+    </Dialog>
+  );
+};
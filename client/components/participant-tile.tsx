@@ -0,0 +1,99 @@
+"use client";
+
+import type React from "react";
+
+import { memo, useEffect, useRef } from "react";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+interface ParticipantTileProps {
+  userName: string;
+  stream: MediaStream | null;
+  muted?: boolean;
+  mirrored?: boolean;
+  showVideo?: boolean;
+  statusText?: string;
+  audioOutputId?: string | null;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+export const ParticipantTile = memo(
+  ({
+    userName,
+    stream,
+    muted = false,
+    mirrored = false,
+    showVideo = true,
+    statusText,
+    audioOutputId,
+    className,
+    children,
+  }: ParticipantTileProps) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+      const videoEl = videoRef.current;
+      if (!videoEl || !stream) return;
+      if (videoEl.srcObject === stream) return;
+
+      videoEl.srcObject = stream;
+      videoEl.play().catch((err) => {
+        if (err?.name !== "AbortError") {
+          console.error(`Error playing video for ${userName}:`, err);
+        }
+      });
+    }, [stream, showVideo, userName]);
+
+    // Route remote audio to the chosen speaker where the browser allows it
+    useEffect(() => {
+      const videoEl = videoRef.current as
+        | (HTMLVideoElement & { setSinkId?: (id: string) => Promise<void> })
+        | null;
+      if (!videoEl || muted || !audioOutputId || !videoEl.setSinkId) return;
+
+      videoEl.setSinkId(audioOutputId).catch((err) => {
+        console.error("Error setting audio output:", err);
+      });
+    }, [audioOutputId, muted, showVideo, stream]);
+
+    const hasVideo = showVideo && !!stream;
+
+    return (
+      <Card className={cn("relative bg-black overflow-hidden", className)}>
+        {hasVideo ? (
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted={muted}
+            className="w-full h-full object-contain"
+            style={{ transform: mirrored ? "scaleX(-1)" : "none" }}
+          />
+        ) : (
+          <div className="absolute inset-0 bg-gradient-to-br from-primary/10 to-primary/5 flex items-center justify-center">
+            <div className="text-center">
+              <div className="w-14 h-14 sm:w-20 sm:h-20 rounded-full bg-primary/20 flex items-center justify-center mx-auto mb-2 sm:mb-3">
+                <span className="text-2xl sm:text-3xl font-semibold text-primary">
+                  {userName.charAt(0).toUpperCase()}
+                </span>
+              </div>
+              <p className="text-sm sm:text-base font-medium text-white">
+                {userName}
+              </p>
+              {statusText && (
+                <p className="text-[10px] sm:text-xs text-muted-foreground mt-1">
+                  {statusText}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {children}
+      </Card>
+    );
+  }
+);
+
+ParticipantTile.displayName = "ParticipantTile";
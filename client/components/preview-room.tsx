@@ -3,7 +3,15 @@
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
 import { useRouter, useParams, useSearchParams } from "next/navigation";
-import { Video, VideoOff, Mic, MicOff, Copy, Check } from "lucide-react";
+import { Video, VideoOff, Mic, MicOff, Copy, Check, Loader2 } from "lucide-react";
+import { DevicePicker } from "./device-picker";
+import { useMediaDevices } from "@/hooks/useMediaDevices";
+import { audioConstraint, videoConstraint } from "@/lib/mediaDevices";
+import { useWaitingRoom } from "@/hooks/useWaitingRoom";
+import { getHostKey } from "@/lib/hostKey";
+import { PASSCODE_LENGTH } from "@/lib/passcode";
+import { getRoom } from "@/services/rooms";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 
 const PreviewPageClient: React.FC = () => {
   const router = useRouter();
@@ -12,6 +20,13 @@ const PreviewPageClient: React.FC = () => {
 
   const roomFromUrl = typeof params?.roomId === "string" ? params.roomId : "";
   const usernameFromUrl = searchParams?.get("username") || "";
+  // Set by the home page for the meeting's creator, who is let in without
+  // waiting. The host key is in sessionStorage, so this is only known after mount.
+  const [isCreator, setIsCreator] = useState(false);
+  const isCreateAction = searchParams?.get("action") === "create";
+  useEffect(() => {
+    setIsCreator(isCreateAction && !!getHostKey(roomFromUrl));
+  }, [isCreateAction, roomFromUrl]);
 
   const [userName, setUserName] = useState(
     usernameFromUrl ||
@@ -32,9 +47,38 @@ const PreviewPageClient: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [permissionError, setPermissionError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [needsPasscode, setNeedsPasscode] = useState(false);
+  const [passcode, setPasscode] = useState("");
 
   const videoRef = useRef<HTMLVideoElement>(null);
 
+  // The host skips the passcode. A missing room is reported after joining.
+  useEffect(() => {
+    if (!room || getHostKey(room)) return;
+    let cancelled = false;
+    getRoom(room)
+      .then((info) => {
+        if (!cancelled) setNeedsPasscode(info.hasPasscode);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [room]);
+  const {
+    videoInputs,
+    audioInputs,
+    audioOutputs,
+    selected,
+    selectDevice,
+    refresh: refreshDevices,
+    canSelectOutput,
+  } = useMediaDevices();
+
+  // Read inside the capture effect so toggles survive a device switch
+  const enabledRef = useRef({ video: true, audio: true });
+  enabledRef.current = { video: videoEnabled, audio: audioEnabled };
+
   useEffect(() => {
     let stream: MediaStream | null = null;
 
@@ -43,8 +87,15 @@ const PreviewPageClient: React.FC = () => {
         setIsLoading(true);
         console.log("Requesting media stream...");
         stream = await navigator.mediaDevices.getUserMedia({
-          video: true,
-          audio: true,
+          video: videoConstraint(selected.videoinput),
+          audio: audioConstraint(selected.audioinput),
+        });
+
+        stream.getVideoTracks().forEach((track) => {
+          track.enabled = enabledRef.current.video;
+        });
+        stream.getAudioTracks().forEach((track) => {
+          track.enabled = enabledRef.current.audio;
         });
 
         console.log("Media stream obtained:", stream);
@@ -53,6 +104,9 @@ const PreviewPageClient: React.FC = () => {
 
         setPreviewStream(stream);
         setPermissionError(null);
+
+        // Device labels only become available after permission is granted
+        refreshDevices();
       } catch (error: any) {
         console.error("Error accessing media devices:", error);
         console.error("Error name:", error.name);
@@ -86,7 +140,7 @@ const PreviewPageClient: React.FC = () => {
         });
       }
     };
-  }, []);
+  }, [selected.videoinput, selected.audioinput, refreshDevices]);
 
   useEffect(() => {
     if (!videoRef.current || !previewStream) {
@@ -143,7 +197,7 @@ const PreviewPageClient: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleJoinCall = () => {
+  const enterRoom = () => {
     if (typeof window !== "undefined") {
       sessionStorage.setItem("userName", userName);
       sessionStorage.setItem("room", room);
@@ -159,7 +213,27 @@ const PreviewPageClient: React.FC = () => {
     );
   };
 
+  // Everyone asks the host first; the host is admitted straight away
+  const waitingRoom = useWaitingRoom({
+    room,
+    userName: userName || "You",
+    onAdmitted: enterRoom,
+  });
+
+  // A wrong passcode has to be typed again
+  useEffect(() => {
+    if (waitingRoom.deniedReason === "passcode-invalid") setPasscode("");
+  }, [waitingRoom.deniedReason]);
+
+  const hasPasscode = !needsPasscode || passcode.length === PASSCODE_LENGTH;
+
+  const handleJoinCall = () => {
+    waitingRoom.knock(needsPasscode ? passcode : undefined);
+  };
+
   const handleBack = () => {
+    waitingRoom.cancel();
+
     if (previewStream) {
       previewStream.getTracks().forEach((track) => {
         track.stop();
@@ -317,6 +391,20 @@ const PreviewPageClient: React.FC = () => {
               )}
             </div>
 
+            {/* Device Selection */}
+            {!permissionError && (
+              <div className="p-3 sm:p-4 bg-card rounded-lg sm:rounded-xl border border-border">
+                <DevicePicker
+                  videoInputs={videoInputs}
+                  audioInputs={audioInputs}
+                  audioOutputs={audioOutputs}
+                  selected={selected}
+                  onSelect={selectDevice}
+                  canSelectOutput={canSelectOutput}
+                />
+              </div>
+            )}
+
             {/* Meeting Info Card */}
             <div className="p-3 sm:p-4 bg-card rounded-lg sm:rounded-xl border border-border">
               <div className="flex items-center justify-between gap-3">
@@ -347,27 +435,81 @@ const PreviewPageClient: React.FC = () => {
               </div>
             </div>
 
+            {needsPasscode && (
+              <div className="p-3 sm:p-4 bg-card rounded-lg sm:rounded-xl border border-border space-y-2">
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  This meeting needs a passcode
+                </p>
+                <InputOTP
+                  maxLength={PASSCODE_LENGTH}
+                  inputMode="numeric"
+                  pattern="^[0-9]*$"
+                  value={passcode}
+                  onChange={setPasscode}
+                  disabled={waitingRoom.status === "waiting" || waitingRoom.status === "admitted"}
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: PASSCODE_LENGTH }, (_, i) => (
+                      <InputOTPSlot key={i} index={i} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+
+            {waitingRoom.status === "denied" && waitingRoom.deniedMessage && (
+              <p className="text-sm text-destructive text-center">
+                {waitingRoom.deniedMessage}
+              </p>
+            )}
+
             {/* Action Buttons */}
-            <div className="flex gap-3 sm:gap-4">
-              <button
-                onClick={handleBack}
-                className="flex-1 px-4 sm:px-6 py-2.5 sm:py-3 bg-transparent border-2 border-border hover:bg-secondary/50 rounded-lg sm:rounded-xl font-semibold transition-colors text-sm sm:text-base"
-              >
-                Back
-              </button>
-
-              <button
-                onClick={handleJoinCall}
-                disabled={permissionError !== null}
-                className={`flex-1 px-4 sm:px-6 py-2.5 sm:py-3 rounded-lg sm:rounded-xl font-semibold transition-colors text-sm sm:text-base ${
-                  permissionError
-                    ? "bg-muted text-muted-foreground cursor-not-allowed"
-                    : "bg-primary text-primary-foreground hover:bg-primary/90"
-                }`}
-              >
-                Join now
-              </button>
-            </div>
+            {waitingRoom.status === "waiting" || waitingRoom.status === "admitted" ? (
+              <div className="p-4 sm:p-5 bg-card rounded-lg sm:rounded-xl border border-border flex items-center gap-3">
+                <Loader2 className="w-5 h-5 animate-spin text-primary flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm sm:text-base font-semibold">
+                    {waitingRoom.status === "admitted"
+                      ? "Joining…"
+                      : "Waiting for the host to let you in"}
+                  </p>
+                  {waitingRoom.status === "waiting" && (
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      You will join as soon as the host admits you
+                    </p>
+                  )}
+                </div>
+                {waitingRoom.status === "waiting" && (
+                  <button
+                    onClick={waitingRoom.cancel}
+                    className="px-3 sm:px-4 py-2 bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors text-xs sm:text-sm flex-shrink-0"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="flex gap-3 sm:gap-4">
+                <button
+                  onClick={handleBack}
+                  className="flex-1 px-4 sm:px-6 py-2.5 sm:py-3 bg-transparent border-2 border-border hover:bg-secondary/50 rounded-lg sm:rounded-xl font-semibold transition-colors text-sm sm:text-base"
+                >
+                  Back
+                </button>
+
+                <button
+                  onClick={handleJoinCall}
+                  disabled={permissionError !== null || !hasPasscode}
+                  className={`flex-1 px-4 sm:px-6 py-2.5 sm:py-3 rounded-lg sm:rounded-xl font-semibold transition-colors text-sm sm:text-base ${
+                    permissionError || !hasPasscode
+                      ? "bg-muted text-muted-foreground cursor-not-allowed"
+                      : "bg-primary text-primary-foreground hover:bg-primary/90"
+                  }`}
+                >
+                  {isCreator ? "Start meeting" : "Join now"}
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,39 @@
+"use client";
+
+import { Download, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { FinishedRecording } from "@/hooks/useRecording";
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+interface RecordingReadyProps {
+  recording: FinishedRecording;
+  onDismiss: () => void;
+}
+
+// Offers the finished file; nothing is uploaded anywhere
+export const RecordingReady = ({ recording, onDismiss }: RecordingReadyProps) => (
+  <Card className="fixed bottom-20 sm:bottom-24 right-2 sm:right-4 z-40 p-3 sm:p-4 w-72 shadow-lg">
+    <div className="flex items-start justify-between gap-2 mb-3">
+      <div className="min-w-0">
+        <p className="text-sm font-semibold">Recording ready</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {recording.fileName} · {formatSize(recording.size)}
+        </p>
+      </div>
+      <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={onDismiss}>
+        <X className="w-3.5 h-3.5" />
+      </Button>
+    </div>
+    <Button asChild size="sm" className="w-full gap-2">
+      <a href={recording.url} download={recording.fileName}>
+        <Download className="w-4 h-4" />
+        Download
+      </a>
+    </Button>
+  </Card>
+);
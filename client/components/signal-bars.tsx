@@ -0,0 +1,33 @@
+import { cn } from "@/lib/utils";
+
+interface SignalBarsProps {
+  // 0 (unknown) to 4 (excellent)
+  strength: number;
+  className?: string;
+}
+
+const strengthLabels = ["Unknown", "Poor", "Fair", "Good", "Excellent"];
+
+const barColor = (strength: number) =>
+  strength >= 3 ? "bg-green-500" : strength === 2 ? "bg-yellow-500" : "bg-red-500";
+
+export const SignalBars = ({ strength, className }: SignalBarsProps) => {
+  return (
+    <div
+      className={cn("flex items-end gap-0.5 h-3", className)}
+      title={`Connection: ${strengthLabels[strength] ?? strengthLabels[0]}`}
+      aria-label={`Connection: ${strengthLabels[strength] ?? strengthLabels[0]}`}
+    >
+      {[1, 2, 3, 4].map((bar) => (
+        <span
+          key={bar}
+          className={cn(
+            "w-[3px] rounded-sm",
+            bar <= strength ? barColor(strength) : "bg-white/30"
+          )}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  TRANSCRIPT_FORMATS,
+  downloadTranscript,
+  type TranscriptEntry,
+  type TranscriptFormat,
+} from "@/lib/transcript";
+
+interface TranscriptExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: TranscriptEntry[];
+  room: string;
+  // Extra line, e.g. about an unsaved recording
+  warning?: string;
+  onLeave: () => void;
+}
+
+// Shown when leaving with a transcript: it only lives in this tab, so this is
+// the last chance to save it
+export const TranscriptExportDialog = ({
+  open,
+  onOpenChange,
+  entries,
+  room,
+  warning,
+  onLeave,
+}: TranscriptExportDialogProps) => (
+  <AlertDialog open={open} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Save the transcript before leaving?</AlertDialogTitle>
+        <AlertDialogDescription>
+          The transcript of this meeting is only kept on this device and is gone once you
+          leave.{warning && ` ${warning}`}
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(TRANSCRIPT_FORMATS) as TranscriptFormat[]).map((format) => (
+          <Button
+            key={format}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => downloadTranscript(entries, format, room)}
+          >
+            <Download className="w-4 h-4" />
+            {TRANSCRIPT_FORMATS[format].label}
+          </Button>
+        ))}
+      </div>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Stay in meeting</AlertDialogCancel>
+        <AlertDialogAction onClick={onLeave}>Leave meeting</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
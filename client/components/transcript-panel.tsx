@@ -0,0 +1,136 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { Download, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  TRANSCRIPT_FORMATS,
+  downloadTranscript,
+  type TranscriptEntry,
+  type TranscriptFormat,
+} from "@/lib/transcript";
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  captionsEnabled: boolean;
+  room: string;
+}
+
+// Wraps every case-insensitive occurrence of `query` in <mark>
+const highlight = (text: string, query: string) => {
+  if (!query) return text;
+  const lower = text.toLowerCase();
+  const parts: ReactNode[] = [];
+  let position = 0;
+  let index = lower.indexOf(query);
+  while (index !== -1) {
+    parts.push(text.slice(position, index));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-foreground rounded-sm">
+        {text.slice(index, index + query.length)}
+      </mark>
+    );
+    position = index + query.length;
+    index = lower.indexOf(query, position);
+  }
+  parts.push(text.slice(position));
+  return parts.map((part, i) => <Fragment key={i}>{part}</Fragment>);
+};
+
+// Everything said while captions were on, searchable and exportable
+export const TranscriptPanel = ({ entries, captionsEnabled, room }: TranscriptPanelProps) => {
+  const [search, setSearch] = useState("");
+  const query = search.trim().toLowerCase();
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const visible = useMemo(
+    () =>
+      query
+        ? entries.filter(
+            (e) => e.text.toLowerCase().includes(query) || e.userName.toLowerCase().includes(query)
+          )
+        : entries,
+    [entries, query]
+  );
+
+  // Follow the conversation unless searching
+  useEffect(() => {
+    if (!query) endRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+  }, [entries.length, query]);
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="p-3 border-b border-border flex items-center gap-2 flex-shrink-0">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search transcript"
+            className="h-9 pl-8 text-sm"
+          />
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-9 w-9 flex-shrink-0"
+              disabled={entries.length === 0}
+              title="Export transcript"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {(Object.keys(TRANSCRIPT_FORMATS) as TranscriptFormat[]).map((format) => (
+              <DropdownMenuItem key={format} onSelect={() => downloadTranscript(entries, format, room)}>
+                {TRANSCRIPT_FORMATS[format].label} (.{format})
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {visible.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {query
+                ? "Nothing matches your search"
+                : captionsEnabled
+                ? "Waiting for someone to speak…"
+                : "Turn on captions to start the transcript"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((entry) => (
+              <div key={entry.id} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <p className="text-xs font-semibold">{highlight(entry.userName, query)}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {new Date(entry.startedAt).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                      second: "2-digit",
+                    })}
+                  </p>
+                </div>
+                <p className="break-words">{highlight(entry.text, query)}</p>
+              </div>
+            ))}
+            <div ref={endRef} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import PeerManager from "../services/peerManager";
+import type { ParticipantStats } from "./useCallStats";
+import {
+  QUALITY_LEVELS,
+  VIDEO_ENCODINGS,
+  levelIndex,
+  signalStrength,
+  targetLevel,
+  type QualityLevel,
+} from "../services/videoQuality";
+
+// Step back up only after the link has looked better for this many polls in a row
+const UPGRADE_AFTER_SAMPLES = 3;
+
+// Adjusts the camera encoding sent to each participant from the latest stats:
+// drops straight to whatever the link can carry, then climbs back one level
+// at a time so a short good spell does not cause oscillation.
+export const useAdaptiveQuality = (stats: Record<string, ParticipantStats>) => {
+  const [levels, setLevels] = useState<Record<string, QualityLevel>>({});
+  const levelsRef = useRef(levels);
+  const goodStreaks = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    const next: Record<string, QualityLevel> = {};
+
+    Object.entries(stats).forEach(([id, { latest }]) => {
+      const current = levelsRef.current[id] ?? "high";
+      // Nothing to judge until ICE has picked a route
+      if (latest.rttMs === null) {
+        next[id] = current;
+        return;
+      }
+
+      const target = targetLevel(latest);
+      let level = current;
+      let streak = 0;
+
+      if (levelIndex(target) > levelIndex(current)) {
+        level = target;
+      } else if (levelIndex(target) < levelIndex(current)) {
+        streak = (goodStreaks.current.get(id) ?? 0) + 1;
+        if (streak >= UPGRADE_AFTER_SAMPLES) {
+          level = QUALITY_LEVELS[levelIndex(current) - 1];
+          streak = 0;
+        }
+      }
+
+      goodStreaks.current.set(id, streak);
+      next[id] = level;
+
+      PeerManager.get(id)?.setVideoEncoding(VIDEO_ENCODINGS[level]).catch((err) => {
+        console.error(`Failed to apply ${level} video quality for ${id}:`, err);
+      });
+    });
+
+    goodStreaks.current.forEach((_streak, id) => {
+      if (!next[id]) goodStreaks.current.delete(id);
+    });
+
+    levelsRef.current = next;
+    setLevels(next);
+  }, [stats]);
+
+  const signal = useMemo(() => {
+    const strengths: Record<string, number> = {};
+    Object.entries(stats).forEach(([id, { latest }]) => {
+      strengths[id] = signalStrength(latest);
+    });
+    return strengths;
+  }, [stats]);
+
+  return { levels, signal };
+};
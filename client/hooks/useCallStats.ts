@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from "react";
+import PeerManager from "../services/peerManager";
+import { summarizeStats, type CallStatsSample } from "../services/callStats";
+
+export interface ParticipantStats {
+  latest: CallStatsSample;
+  // Oldest first, capped at `historyLength` samples
+  history: CallStatsSample[];
+}
+
+const DEFAULT_INTERVAL_MS = 2000;
+const DEFAULT_HISTORY_LENGTH = 30;
+
+// Polls getStats() on every peer connection while `enabled` is set
+export const useCallStats = ({
+  participantIds,
+  enabled = true,
+  intervalMs = DEFAULT_INTERVAL_MS,
+  historyLength = DEFAULT_HISTORY_LENGTH,
+}: {
+  participantIds: string[];
+  enabled?: boolean;
+  intervalMs?: number;
+  historyLength?: number;
+}) => {
+  const [stats, setStats] = useState<Record<string, ParticipantStats>>({});
+  // Raw reports from the previous poll, needed to turn counters into rates
+  const previousReports = useRef(new Map<string, RTCStatsReport>());
+
+  useEffect(() => {
+    if (!enabled || participantIds.length === 0) return;
+
+    let cancelled = false;
+
+    const poll = async () => {
+      const samples = await Promise.all(
+        participantIds.map(async (id) => {
+          try {
+            const report = await PeerManager.get(id)?.getStats();
+            if (!report) return null;
+
+            const sample = summarizeStats(report, previousReports.current.get(id) ?? null);
+            previousReports.current.set(id, report);
+            return [id, sample] as const;
+          } catch (err) {
+            console.error(`Failed to read stats for ${id}:`, err);
+            return null;
+          }
+        })
+      );
+      if (cancelled) return;
+
+      setStats((prev) => {
+        const next: Record<string, ParticipantStats> = {};
+        samples.forEach((entry) => {
+          if (!entry) return;
+          const [id, sample] = entry;
+          const history = [...(prev[id]?.history ?? []), sample].slice(-historyLength);
+          next[id] = { latest: sample, history };
+        });
+        return next;
+      });
+    };
+
+    poll();
+    const intervalId = setInterval(poll, intervalMs);
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [participantIds, enabled, intervalMs, historyLength]);
+
+  // Forget reports of participants who left
+  useEffect(() => {
+    previousReports.current.forEach((_report, id) => {
+      if (!participantIds.includes(id)) previousReports.current.delete(id);
+    });
+  }, [participantIds]);
+
+  return stats;
+};
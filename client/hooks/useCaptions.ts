@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSocket } from "../context/Socket";
+import { getParticipantId } from "@/lib/participantId";
+import {
+  getPreferredCaptionLanguage,
+  getPreferredEngine,
+  setPreferredCaptionLanguage,
+  setPreferredEngine,
+  type CaptionSegment,
+  type RemoteCaption,
+  type TranscriptionEngineKind,
+} from "@/lib/captions";
+import type { TranscriptEntry } from "@/lib/transcript";
+import { supportedEngines } from "@/services/transcription";
+import { useTranscription } from "./useTranscription";
+
+// How long a caption stays on screen after its speaker goes quiet
+const FINAL_CAPTION_MS = 3000;
+// Interim captions normally turn final quickly; drop them if that never happens
+const INTERIM_CAPTION_MS = 8000;
+
+// Live captions. Everyone transcribes their own microphone while anybody has
+// captions turned on; viewers show what each speaker sent on that speaker's
+// tile and keep the final segments, their own included, as the transcript.
+export const useCaptions = ({
+  userName,
+  micEnabled,
+  stream,
+}: {
+  userName: string;
+  micEnabled: boolean;
+  stream: MediaStream | null;
+}) => {
+  const socket = useSocket();
+
+  // Engines this browser can run and the one we caption ourselves with
+  const [engines, setEngines] = useState<TranscriptionEngineKind[]>([]);
+  const [engine, setEngine] = useState<TranscriptionEngineKind | null>(null);
+  const [language, setLanguage] = useState("en-US");
+
+  // Browser capabilities and saved choices are only known on the client
+  useEffect(() => {
+    const available = supportedEngines();
+    const preferred = getPreferredEngine();
+    setEngines(available);
+    setEngine(preferred && available.includes(preferred) ? preferred : available[0] ?? null);
+    setLanguage(getPreferredCaptionLanguage());
+  }, []);
+
+  const selectEngine = useCallback((kind: TranscriptionEngineKind) => {
+    setPreferredEngine(kind);
+    setEngine(kind);
+  }, []);
+
+  const selectLanguage = useCallback((code: string) => {
+    setPreferredCaptionLanguage(code);
+    setLanguage(code);
+  }, []);
+
+  // This viewer's toggle
+  const [captionsEnabled, setCaptionsEnabled] = useState(false);
+  const captionsEnabledRef = useRef(captionsEnabled);
+  captionsEnabledRef.current = captionsEnabled;
+
+  // Other participants with captions turned on
+  const [viewers, setViewers] = useState<Set<string>>(() => new Set());
+  // Latest caption of each speaker, speaker id -> caption
+  const [captions, setCaptions] = useState<Record<string, RemoteCaption>>({});
+  const clearTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // Final segments collected while captions were on, oldest first
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+
+  const addToTranscript = useCallback((entry: TranscriptEntry) => {
+    setTranscript((prev) => {
+      if (prev.some((e) => e.id === entry.id)) return prev;
+      // Segments arrive roughly in order; keep the list sorted by start time
+      let index = prev.length;
+      while (index > 0 && prev[index - 1].startedAt > entry.startedAt) index--;
+      return [...prev.slice(0, index), entry, ...prev.slice(index)];
+    });
+  }, []);
+
+  const clearCaption = useCallback((speakerId: string) => {
+    const timer = clearTimers.current.get(speakerId);
+    if (timer) clearTimeout(timer);
+    clearTimers.current.delete(speakerId);
+    setCaptions((prev) => {
+      if (!prev[speakerId]) return prev;
+      const { [speakerId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const userNameRef = useRef(userName);
+  userNameRef.current = userName;
+  const hasViewersRef = useRef(false);
+  hasViewersRef.current = viewers.size > 0;
+
+  const handleLocalSegment = useCallback((segment: CaptionSegment) => {
+    if (hasViewersRef.current) socket?.emit("caption:segment", segment);
+
+    if (segment.final && captionsEnabledRef.current) {
+      const speakerId = getParticipantId();
+      addToTranscript({
+        id: `${speakerId}:${segment.id}`,
+        speakerId,
+        userName: userNameRef.current,
+        text: segment.text,
+        startedAt: segment.startedAt,
+        endedAt: segment.endedAt,
+      });
+    }
+  }, [socket, addToTranscript]);
+
+  // Nothing is transcribed while muted or while nobody is reading along
+  const { error: transcriptionError } = useTranscription({
+    enabled: micEnabled && (captionsEnabled || viewers.size > 0),
+    stream,
+    engine,
+    language,
+    onSegment: handleLocalSegment,
+  });
+
+  useEffect(() => {
+    socket?.emit("captions:toggle", { enabled: captionsEnabled });
+    if (!captionsEnabled) {
+      clearTimers.current.forEach((timer) => clearTimeout(timer));
+      clearTimers.current.clear();
+      setCaptions({});
+    }
+  }, [socket, captionsEnabled]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleRoomJoined = ({ users }: any) => {
+      setViewers(new Set(
+        (users ?? [])
+          .filter((u: any) => u.wantsCaptions && u.id !== getParticipantId())
+          .map((u: any) => u.id)
+      ));
+
+      // The server forgets our toggle if it dropped us; tell it again
+      if (captionsEnabledRef.current) socket.emit("captions:toggle", { enabled: true });
+    };
+
+    const handleToggle = ({ id, enabled }: any) => {
+      setViewers((prev) => {
+        if (prev.has(id) === Boolean(enabled)) return prev;
+        const next = new Set(prev);
+        if (enabled) next.add(id);
+        else next.delete(id);
+        return next;
+      });
+    };
+
+    const handleSegment = (caption: RemoteCaption) => {
+      if (!captionsEnabledRef.current) return;
+
+      const timer = clearTimers.current.get(caption.speakerId);
+      if (timer) clearTimeout(timer);
+      clearTimers.current.set(
+        caption.speakerId,
+        setTimeout(() => clearCaption(caption.speakerId), caption.final ? FINAL_CAPTION_MS : INTERIM_CAPTION_MS)
+      );
+      setCaptions((prev) => ({ ...prev, [caption.speakerId]: caption }));
+
+      if (caption.final) {
+        // Segment times are on the speaker's clock; move them onto ours
+        const skew = Date.now() - caption.endedAt;
+        addToTranscript({
+          id: `${caption.speakerId}:${caption.id}`,
+          speakerId: caption.speakerId,
+          userName: caption.userName,
+          text: caption.text,
+          startedAt: caption.startedAt + skew,
+          endedAt: caption.endedAt + skew,
+        });
+      }
+    };
+
+    const handleUserLeft = ({ id }: any) => {
+      handleToggle({ id, enabled: false });
+      clearCaption(id);
+    };
+
+    socket.on("room:joined", handleRoomJoined);
+    socket.on("captions:toggle", handleToggle);
+    socket.on("caption:segment", handleSegment);
+    socket.on("user:left", handleUserLeft);
+
+    return () => {
+      socket.off("room:joined", handleRoomJoined);
+      socket.off("captions:toggle", handleToggle);
+      socket.off("caption:segment", handleSegment);
+      socket.off("user:left", handleUserLeft);
+    };
+  }, [socket, clearCaption, addToTranscript]);
+
+  useEffect(() => {
+    const timers = clearTimers.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const toggleCaptions = useCallback(() => {
+    setCaptionsEnabled((prev) => !prev);
+  }, []);
+
+  return {
+    captionsEnabled,
+    toggleCaptions,
+    captions,
+    transcript,
+    // How we caption our own speech for others
+    engines,
+    engine,
+    selectEngine,
+    language,
+    selectLanguage,
+    transcriptionError,
+    // Whether this browser can caption our own speech at all
+    isSupported: engines.length > 0,
+  };
+};
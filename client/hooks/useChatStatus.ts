@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSocket } from "../context/Socket";
+import { getParticipantId } from "@/lib/participantId";
+import type { ChatMessage } from "@/lib/chat";
+import type { Participant } from "./useSignaling";
+
+export type ReceiptStatus = "sent" | "delivered" | "read";
+
+export interface MessageReceipt {
+  status: ReceiptStatus;
+  // Names of everyone who has read the message
+  readBy: string[];
+}
+
+// While typing we repeat "typing" this often; others drop us after the timeout
+const TYPING_REFRESH_MS = 2500;
+const TYPING_IDLE_MS = 3000;
+const TYPING_TIMEOUT_MS = 6000;
+
+type ReceiptEntry = { delivered: Set<string>; read: Set<string>; names: Map<string, string> };
+
+// Typing indicators, delivery/read receipts for our own messages and the
+// unread count for the chat button. Receipts only live in memory on both ends.
+export const useChatStatus = ({
+  messages,
+  participants,
+}: {
+  messages: ChatMessage[];
+  participants: Record<string, Participant>;
+}) => {
+  const socket = useSocket();
+
+  // Participants typing right now, id -> name
+  const [typing, setTyping] = useState<Record<string, string>>({});
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const typingSentAt = useRef(0);
+  const stopTypingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [receiptEntries, setReceiptEntries] = useState<Record<string, ReceiptEntry>>({});
+  // Messages that arrived while we were not looking
+  const [unreadIds, setUnreadIds] = useState<Set<string>>(() => new Set());
+  const reportedRead = useRef(new Set<string>());
+
+  // -- Typing --
+  const stopTyping = useCallback(() => {
+    if (stopTypingTimer.current) clearTimeout(stopTypingTimer.current);
+    stopTypingTimer.current = null;
+    if (typingSentAt.current) {
+      typingSentAt.current = 0;
+      socket?.emit("chat:typing", { typing: false });
+    }
+  }, [socket]);
+
+  // Call on every keystroke; only every few seconds reaches the server
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - typingSentAt.current > TYPING_REFRESH_MS) {
+      typingSentAt.current = now;
+      socket?.emit("chat:typing", { typing: true });
+    }
+    if (stopTypingTimer.current) clearTimeout(stopTypingTimer.current);
+    stopTypingTimer.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [socket, stopTyping]);
+
+  const clearTyping = useCallback((id: string) => {
+    const timer = typingTimers.current.get(id);
+    if (timer) clearTimeout(timer);
+    typingTimers.current.delete(id);
+    setTyping((prev) => {
+      if (!prev[id]) return prev;
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // -- Receipts --
+  const markRead = useCallback((ids: string[]) => {
+    const fresh = ids.filter((id) => !reportedRead.current.has(id));
+    if (fresh.length === 0) return;
+
+    fresh.forEach((id) => reportedRead.current.add(id));
+    socket?.emit("chat:read", { ids: fresh });
+    setUnreadIds((prev) => {
+      if (!fresh.some((id) => prev.has(id))) return prev;
+      const next = new Set(prev);
+      fresh.forEach((id) => next.delete(id));
+      return next;
+    });
+  }, [socket]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleTyping = ({ id, userName, typing: isTyping }: any) => {
+      if (!isTyping) {
+        clearTyping(id);
+        return;
+      }
+
+      const timer = typingTimers.current.get(id);
+      if (timer) clearTimeout(timer);
+      typingTimers.current.set(id, setTimeout(() => clearTyping(id), TYPING_TIMEOUT_MS));
+      setTyping((prev) => (prev[id] === userName ? prev : { ...prev, [id]: userName }));
+    };
+
+    const handleChatMessage = (data: any) => {
+      if (!data.senderId || data.senderId === getParticipantId()) return;
+
+      clearTyping(data.senderId);
+      socket.emit("chat:delivered", { ids: [data.id] });
+      setUnreadIds((prev) => new Set(prev).add(data.id));
+    };
+
+    const handleReceipt = ({ ids, by, userName, status }: any) => {
+      setReceiptEntries((prev) => {
+        const next = { ...prev };
+        (ids ?? []).forEach((id: string) => {
+          const current = next[id];
+          const entry: ReceiptEntry = {
+            delivered: new Set(current?.delivered).add(by),
+            read: new Set(current?.read),
+            names: new Map(current?.names).set(by, userName),
+          };
+          if (status === "read") entry.read.add(by);
+          next[id] = entry;
+        });
+        return next;
+      });
+    };
+
+    const handleUserLeft = ({ id }: any) => clearTyping(id);
+
+    socket.on("chat:typing", handleTyping);
+    socket.on("chat:message", handleChatMessage);
+    socket.on("chat:receipt", handleReceipt);
+    socket.on("user:left", handleUserLeft);
+
+    return () => {
+      socket.off("chat:typing", handleTyping);
+      socket.off("chat:message", handleChatMessage);
+      socket.off("chat:receipt", handleReceipt);
+      socket.off("user:left", handleUserLeft);
+    };
+  }, [socket, clearTyping]);
+
+  useEffect(() => {
+    const timers = typingTimers.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      if (stopTypingTimer.current) clearTimeout(stopTypingTimer.current);
+    };
+  }, []);
+
+  // Delivered/read means everyone currently in the room; with nobody left,
+  // anyone who got it counts
+  const receipts = useMemo(() => {
+    const others = Object.keys(participants);
+    const everyone = (ids: Set<string>) =>
+      others.length > 0 ? others.every((id) => ids.has(id)) : ids.size > 0;
+
+    const result: Record<string, MessageReceipt> = {};
+    messages.forEach((message) => {
+      if (!message.isLocal || message.deleted) return;
+      const entry = receiptEntries[message.id];
+      result[message.id] = {
+        status: !entry ? "sent" : everyone(entry.read) ? "read" : everyone(entry.delivered) ? "delivered" : "sent",
+        readBy: entry ? Array.from(entry.read, (id) => entry.names.get(id) ?? "Someone") : [],
+      };
+    });
+    return result;
+  }, [messages, participants, receiptEntries]);
+
+  return {
+    typingNames: Object.values(typing),
+    notifyTyping,
+    stopTyping,
+    receipts,
+    markRead,
+    unreadCount: unreadIds.size,
+  };
+};
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import PeerManager from "../services/peerManager";
+import { useSocket } from "../context/Socket";
+import type { Participant } from "./useSignaling";
+
+export type RecoveryStatus = "idle" | "reconnecting" | "failed";
+
+// How long we keep trying before telling the user the connection is gone
+export const RECOVERY_TIMEOUT_MS = 30000;
+// "disconnected" often heals by itself, so give ICE a moment before restarting
+const DISCONNECTED_GRACE_MS = 3000;
+const ICE_RESTART_INTERVAL_MS = 5000;
+
+type PeerRecovery = {
+  startedAt: number;
+  state: RTCPeerConnectionState;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+// Watches the signaling socket and every peer connection, and tries to bring
+// them back after network changes:
+// - socket drops show a "Reconnecting…" state until Socket.IO reconnects
+//   (useRoom re-joins the room on the new connection)
+// - peers in "disconnected"/"failed" get ICE restarts until they are connected
+//   again or RECOVERY_TIMEOUT_MS passes
+export const useConnectionRecovery = ({
+  participants,
+  enabled,
+}: {
+  participants: Record<string, Participant>;
+  enabled: boolean;
+}) => {
+  const socket = useSocket();
+
+  const [status, setStatus] = useState<RecoveryStatus>("idle");
+  const [recoveringIds, setRecoveringIds] = useState<string[]>([]);
+  const [lostIds, setLostIds] = useState<string[]>([]);
+
+  const giveUpTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const peerRecovery = useRef(new Map<string, PeerRecovery>());
+  const participantsRef = useRef(participants);
+
+  useEffect(() => {
+    participantsRef.current = participants;
+  }, [participants]);
+
+  const startGiveUpTimer = useCallback(() => {
+    if (giveUpTimer.current) clearTimeout(giveUpTimer.current);
+    giveUpTimer.current = setTimeout(() => {
+      giveUpTimer.current = null;
+      setStatus("failed");
+    }, RECOVERY_TIMEOUT_MS);
+  }, []);
+
+  // -- Signaling socket --
+  useEffect(() => {
+    if (!socket || !enabled) return;
+
+    const handleDisconnect = (reason: string) => {
+      // We left on purpose (endCall / leaving the page)
+      if (reason === "io client disconnect") return;
+      setStatus("reconnecting");
+      startGiveUpTimer();
+    };
+
+    const handleConnect = () => {
+      if (giveUpTimer.current) {
+        clearTimeout(giveUpTimer.current);
+        giveUpTimer.current = null;
+      }
+      setStatus("idle");
+    };
+
+    socket.on("disconnect", handleDisconnect);
+    socket.on("connect", handleConnect);
+
+    return () => {
+      socket.off("disconnect", handleDisconnect);
+      socket.off("connect", handleConnect);
+    };
+  }, [socket, enabled, startGiveUpTimer]);
+
+  useEffect(() => {
+    return () => {
+      if (giveUpTimer.current) clearTimeout(giveUpTimer.current);
+    };
+  }, []);
+
+  // Manual retry after giving up; Socket.IO stops on its own after its attempt limit
+  const retry = useCallback(() => {
+    if (!socket) return;
+    setStatus("reconnecting");
+    startGiveUpTimer();
+    socket.connect();
+  }, [socket, startGiveUpTimer]);
+
+  // -- Peer connections --
+  const stopPeerRecovery = useCallback((id: string) => {
+    const entry = peerRecovery.current.get(id);
+    if (!entry) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    peerRecovery.current.delete(id);
+    setRecoveringIds((prev) => prev.filter((pid) => pid !== id));
+  }, []);
+
+  const attemptIceRestart = useCallback((id: string) => {
+    const entry = peerRecovery.current.get(id);
+    if (!entry) return;
+    entry.timer = null;
+
+    const state = participantsRef.current[id]?.connectionState;
+    if (!state || state === "connected") {
+      stopPeerRecovery(id);
+      return;
+    }
+
+    if (Date.now() - entry.startedAt >= RECOVERY_TIMEOUT_MS) {
+      stopPeerRecovery(id);
+      setLostIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+      return;
+    }
+
+    // The restart offer needs the socket; while it is down just wait for the next round
+    if (socket?.connected) {
+      PeerManager.get(id)?.restartIce().catch((err) => {
+        console.error(`ICE restart for ${id} failed:`, err);
+      });
+    }
+
+    entry.timer = setTimeout(() => attemptIceRestart(id), ICE_RESTART_INTERVAL_MS);
+  }, [socket, stopPeerRecovery]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    Object.values(participants).forEach(({ id, connectionState }) => {
+      const entry = peerRecovery.current.get(id);
+
+      if (connectionState === "connected") {
+        stopPeerRecovery(id);
+        setLostIds((prev) => (prev.includes(id) ? prev.filter((pid) => pid !== id) : prev));
+        return;
+      }
+
+      if (connectionState !== "disconnected" && connectionState !== "failed") return;
+
+      if (!entry) {
+        peerRecovery.current.set(id, {
+          startedAt: Date.now(),
+          state: connectionState,
+          timer: setTimeout(
+            () => attemptIceRestart(id),
+            connectionState === "failed" ? 0 : DISCONNECTED_GRACE_MS
+          ),
+        });
+        setRecoveringIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+      } else if (entry.state !== connectionState) {
+        // No point waiting for the next round once ICE has given up
+        if (connectionState === "failed" && entry.timer) {
+          clearTimeout(entry.timer);
+          entry.timer = setTimeout(() => attemptIceRestart(id), 0);
+        }
+        entry.state = connectionState;
+      }
+    });
+
+    // Participants that left need no recovery
+    peerRecovery.current.forEach((_entry, id) => {
+      if (!participants[id]) stopPeerRecovery(id);
+    });
+    setLostIds((prev) => {
+      const next = prev.filter((id) => participants[id]);
+      return next.length === prev.length ? prev : next;
+    });
+  }, [participants, enabled, attemptIceRestart, stopPeerRecovery]);
+
+  // Pending restarts must not outlive the meeting page
+  useEffect(() => {
+    const tracked = peerRecovery.current;
+    return () => {
+      tracked.forEach((entry) => {
+        if (entry.timer) clearTimeout(entry.timer);
+      });
+      tracked.clear();
+    };
+  }, []);
+
+  return {
+    status,
+    recoveringIds,
+    lostIds,
+    retry,
+  };
+};
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSocket } from "../context/Socket";
+import { FileTransferService, type FileTransfer } from "../services/fileTransfer";
+
+// File sharing in the chat. Transfers only live in this tab: nothing goes
+// through the server, so late joiners do not see earlier files.
+export const useFileTransfers = ({ userName }: { userName: string }) => {
+  const socket = useSocket();
+  const [transfers, setTransfers] = useState<FileTransfer[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const serviceRef = useRef<FileTransferService | null>(null);
+
+  useEffect(() => {
+    const service = new FileTransferService(setTransfers);
+    serviceRef.current = service;
+    return () => {
+      service.dispose();
+      serviceRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUserLeft = ({ id }: any) => {
+      serviceRef.current?.handlePeerLeft(id);
+    };
+
+    socket.on("user:left", handleUserLeft);
+    return () => {
+      socket.off("user:left", handleUserLeft);
+    };
+  }, [socket]);
+
+  const sendFiles = useCallback(async (files: File[]) => {
+    setError(null);
+    for (const file of files) {
+      try {
+        await serviceRef.current?.send(file, userName);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not send the file");
+      }
+    }
+  }, [userName]);
+
+  const pauseTransfer = useCallback((id: string) => serviceRef.current?.pause(id), []);
+  const resumeTransfer = useCallback((id: string) => serviceRef.current?.resume(id), []);
+  const cancelTransfer = useCallback((id: string) => serviceRef.current?.cancel(id), []);
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    transfers,
+    error,
+    clearError,
+    sendFiles,
+    pauseTransfer,
+    resumeTransfer,
+    cancelTransfer,
+  };
+};
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSocket } from "../context/Socket";
+
+export interface LobbyGuest {
+  id: string;
+  userName: string;
+}
+
+// The host's side of the waiting room: who is knocking, and the answers.
+// Everyone else gets isHost === false and an empty list.
+export const useLobby = () => {
+  const socket = useSocket();
+  const [isHost, setIsHost] = useState(false);
+  const [waiting, setWaiting] = useState<LobbyGuest[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleRoomJoined = ({ isHost: host, lobby }: any) => {
+      setIsHost(!!host);
+      setWaiting(host && Array.isArray(lobby) ? lobby : []);
+    };
+
+    // Knocking again (after a reload) keeps a single entry
+    const handleKnock = (guest: LobbyGuest) => {
+      setWaiting((prev) => [...prev.filter((g) => g.id !== guest.id), guest]);
+    };
+
+    const handleRemoved = ({ id }: { id: string }) => {
+      setWaiting((prev) => prev.filter((g) => g.id !== id));
+    };
+
+    socket.on("room:joined", handleRoomJoined);
+    socket.on("lobby:knock", handleKnock);
+    socket.on("lobby:removed", handleRemoved);
+
+    return () => {
+      socket.off("room:joined", handleRoomJoined);
+      socket.off("lobby:knock", handleKnock);
+      socket.off("lobby:removed", handleRemoved);
+    };
+  }, [socket]);
+
+  // The server confirms with lobby:removed
+  const admit = useCallback((id: string) => {
+    socket?.emit("lobby:admit", { id });
+  }, [socket]);
+
+  const deny = useCallback((id: string) => {
+    socket?.emit("lobby:deny", { id });
+  }, [socket]);
+
+  return { isHost, waiting, admit, deny };
+};
@@ -1,44 +1,27 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import PeerService from "../services/peer";
-import { useSocket } from "../context/Socket";
+import PeerManager from "../services/peerManager";
+import {
+  AUDIO_PROCESSING,
+  audioConstraint,
+  setPreferredDeviceId,
+  videoConstraint,
+} from "@/lib/mediaDevices";
 
 export const useMedia = ({ 
-  remoteSocketId, 
   localUserName, 
-  remoteUserName, 
-  setRemoteUserName, 
   room,
   navigate,
   socket
 } : {
-  remoteSocketId?: string | null;
   localUserName?: string;
-  remoteUserName?: string;
-  setRemoteUserName?: (s: string) => void;
   room?: string;
     navigate?: any;  
     socket?: any;
 }) => {
-  // const socket = useSocket();
   const [myStream, setMyStream] = useState<MediaStream | null>(null);
-  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
 
   const myVideoRef = useRef<HTMLVideoElement | null>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement | null>(null);
-
-  const [connectionState, setConnectionState] = useState<RTCPeerConnectionState>("new");
-  const [iceConnectionState, setIceConnectionState] = useState<RTCIceConnectionState>("new");
-
-  useEffect(() => {
-    const setInitialState = async () => {
-      const peer = await PeerService.getPeer();
-      if (peer) {
-        setConnectionState(peer.connectionState);
-        setIceConnectionState(peer.iceConnectionState);
-      }
-    };
-    setInitialState();
-  }, []);
 
   // Attach myStream to local video element
   useEffect(() => {
@@ -64,78 +47,74 @@ export const useMedia = ({
     };
   }, [myStream]);
 
-  // Same for remote stream
+  // When local stream is created or re-created, ensure every peer has senders
   useEffect(() => {
-    if (!remoteVideoRef.current || !remoteStream) return;
-    
-    const videoEl = remoteVideoRef.current;
-    
-    if (videoEl.srcObject === remoteStream) return;
-    
-    videoEl.srcObject = remoteStream;
-    videoEl.play().catch(err => {
-      if (err?.name !== "AbortError") {
-        console.error("Error playing remote video:", err);
-      }
+    if (!myStream) return;
+    PeerManager.setLocalStream(myStream).catch((err) => {
+      console.error("Failed to add local stream to peers:", err);
     });
+  }, [myStream]);
 
-    return () => {
-      if (videoEl.srcObject) {
-        videoEl.srcObject = null;
-      }
-    };
-  }, [remoteStream]);
+  // Add a freshly captured track to every peer; each one renegotiates via negotiationneeded
+  const addTrackToPeers = useCallback(async (track: MediaStreamTrack, stream: MediaStream) => {
+    await Promise.all(PeerManager.all().map(async (peerService) => {
+      const peer = await peerService.getPeer();
+      if (!peer || peer.connectionState === 'closed') return;
 
-  // When local stream is created or re-created, ensure PeerService has senders
-  useEffect(() => {
-    if (!myStream) return;
-    try {
-      PeerService.addLocalStream(myStream);
-    } catch (err) {
-      console.error("Failed to add local stream to PeerService:", err);
-    }
-  }, [myStream]);
+      peer.addTrack(track, stream);
+    }));
+  }, []);
 
-  // Listen to PeerService connection state changes
-  useEffect(() => {
-    let cleanup = () => {};
+  // Latest stop handler, so the browser's "Stop sharing" button always sees current state
+  const stopScreenShareRef = useRef<() => void>(() => {});
 
-    const attachListeners = async () => {
-      const peer = await PeerService.getPeer(); // wait until peer exists
-      if (!peer) return;
+  const stopScreenShare = useCallback(async () => {
+    const current = PeerManager.getScreenStream();
+    if (!current) return;
 
-      const handleConnectionChange = () => {
-        setConnectionState(peer.connectionState);
-      };
+    current.getTracks().forEach((track) => {
+      try { track.stop(); } catch (e) {}
+    });
 
-      const handleIceConnectionChange = () => {
-        setIceConnectionState(peer.iceConnectionState);
-      };
+    await PeerManager.setScreenStream(null);
 
-      peer.addEventListener('connectionstatechange', handleConnectionChange);
-      peer.addEventListener('iceconnectionstatechange', handleIceConnectionChange);
+    socket?.emit("screen:stopped");
+    setScreenStream(null);
+  }, [socket]);
 
-      cleanup = () => {
-        peer.removeEventListener('connectionstatechange', handleConnectionChange);
-        peer.removeEventListener('iceconnectionstatechange', handleIceConnectionChange);
-      };
-    };
+  useEffect(() => {
+    stopScreenShareRef.current = stopScreenShare;
+  }, [stopScreenShare]);
 
-    attachListeners();
+  const startScreenShare = useCallback(async () => {
+    if (PeerManager.getScreenStream()) return true;
 
-    const handlePeerReset = () => {
-      cleanup();
-      attachListeners();
-    };
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: false,
+      });
+      const screenTrack = stream.getVideoTracks()[0];
 
-    document.addEventListener('peer-reset', handlePeerReset);
+      // Fired when the user clicks the browser's own "Stop sharing" control
+      screenTrack.addEventListener("ended", () => {
+        stopScreenShareRef.current();
+      });
 
-    return () => {
-      cleanup();
-      document.removeEventListener('peer-reset', handlePeerReset);
-    };
-  }, []);
+      // Announce first so viewers can tell this stream apart from our camera
+      socket?.emit("screen:started", { streamId: stream.id });
 
+      await PeerManager.setScreenStream(stream);
+
+      setScreenStream(stream);
+      return true;
+    } catch (error: any) {
+      if (error?.name !== "NotAllowedError") {
+        console.error("Error starting screen share:", error);
+      }
+      return false;
+    }
+  }, [socket]);
 
   const endCall = useCallback(() => {
     const roomToLog = room || 'undefined';
@@ -146,10 +125,15 @@ export const useMedia = ({
         try { track.stop(); } catch (e) {}
       });
     }
+    PeerManager.getScreenStream()?.getTracks().forEach((track) => {
+      try { track.stop(); } catch (e) {}
+    });
 
     // 2. Emit signals
-    if (remoteSocketId && socket) {
-      socket.emit("call:end", { to: remoteSocketId });
+    if (socket) {
+      PeerManager.ids().forEach((remoteId) => {
+        socket.emit("call:end", { to: remoteId });
+      });
     }
     if (socket && room) {
       socket.emit("leave:room");
@@ -157,21 +141,14 @@ export const useMedia = ({
 
     // 3. Clear streams
     setMyStream(null);
-    setRemoteStream(null);
+    setScreenStream(null);
 
-    // 4. Clear video elements
+    // 4. Clear video element
     if (myVideoRef.current) myVideoRef.current.srcObject = null;
-    if (remoteVideoRef.current) remoteVideoRef.current.srcObject = null;
     
-    // 5. Reset peer
-    try {
-      PeerService.removeAllSenders();
-      PeerService.reset();
-    } catch (err) {}
-
-    // 6. Clear remote connection state - ADD THIS
-    if (setRemoteUserName) setRemoteUserName("Remote User");
-    // Note: Don't clear remoteSocketId here - let the socket events handle it
+    // 5. Close every peer connection
+    PeerManager.closeAll().catch(() => {});
+    // Note: participants are cleared by the signaling hook on unmount
 
     if (typeof window !== 'undefined') {
       sessionStorage.removeItem('room');
@@ -184,7 +161,7 @@ export const useMedia = ({
     if (navigate) {
       navigate.replace('/');
     }
-  }, [myStream, socket, remoteSocketId, room, navigate, setRemoteStream, setMyStream, setRemoteUserName]);
+  }, [myStream, socket, room, navigate, setMyStream]);
 
   // Replace the toggleVideo and toggleAudio functions in useMedia.ts
   const toggleVideo = useCallback(async () => {
@@ -206,7 +183,7 @@ export const useMedia = ({
       // No video track exists, need to get a new stream with video
       try {
         const newStream = await navigator.mediaDevices.getUserMedia({
-          video: true,
+          video: videoConstraint(),
           audio: false
         });
         
@@ -215,25 +192,8 @@ export const useMedia = ({
         // Add the new video track to existing stream
         myStream.addTrack(newVideoTrack);
         
-        // Add to peer connection and trigger renegotiation
-        const peer = await PeerService.getPeer();
-        if (peer && peer.connectionState !== 'closed' && remoteSocketId) {
-          // Add track to peer
-          peer.addTrack(newVideoTrack, myStream);
-          
-          // Create new offer to renegotiate
-          const offer = await (await peer).createOffer();
-          await peer.setLocalDescription(offer);
-          
-          // Send new offer to remote peer
-          if (socket) {
-            socket.emit("user:call", { 
-              to: remoteSocketId, 
-              offer, 
-              userName: localUserName 
-            });
-          }
-        }
+        // Add to every peer connection and trigger renegotiation
+        await addTrackToPeers(newVideoTrack, myStream);
         
         // Update sessionStorage
         if (typeof window !== 'undefined') {
@@ -249,7 +209,7 @@ export const useMedia = ({
         return false;
       }
     }
-  }, [myStream, setMyStream, remoteSocketId, socket, localUserName]);
+  }, [myStream, setMyStream, addTrackToPeers]);
 
   const toggleAudio = useCallback(async () => {
     if (!myStream) return false;
@@ -271,11 +231,7 @@ export const useMedia = ({
       try {
         const newStream = await navigator.mediaDevices.getUserMedia({
           video: false,
-            audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-          }
+          audio: audioConstraint(undefined, AUDIO_PROCESSING)
         });
         
         const newAudioTrack = newStream.getAudioTracks()[0];
@@ -283,25 +239,8 @@ export const useMedia = ({
         // Add the new audio track to existing stream
         myStream.addTrack(newAudioTrack);
         
-        // Add to peer connection and trigger renegotiation
-        const peer = await PeerService.getPeer();
-        if (peer && peer.connectionState !== 'closed' && remoteSocketId) {
-          // Add track to peer
-          peer.addTrack(newAudioTrack, myStream);
-          
-          // Create new offer to renegotiate
-          const offer = await peer.createOffer();
-          await peer.setLocalDescription(offer);
-          
-          // Send new offer to remote peer
-          if (socket) {
-            socket.emit("user:call", { 
-              to: remoteSocketId, 
-              offer, 
-              userName: localUserName 
-            });
-          }
-        }
+        // Add to every peer connection and trigger renegotiation
+        await addTrackToPeers(newAudioTrack, myStream);
         
         // Update sessionStorage
         if (typeof window !== 'undefined') {
@@ -317,7 +256,49 @@ export const useMedia = ({
         return false;
       }
     }
-  }, [myStream, setMyStream, remoteSocketId, socket, localUserName]);
+  }, [myStream, setMyStream, addTrackToPeers]);
+
+  // Swap camera or microphone mid-call. Existing senders get the new track via
+  // replaceTrack, so no renegotiation is needed unless the kind was never sent.
+  const switchDevice = useCallback(async (kind: "videoinput" | "audioinput", deviceId: string) => {
+    setPreferredDeviceId(kind, deviceId);
+    if (!myStream) return false;
+
+    const isVideo = kind === "videoinput";
+    const oldTrack = isVideo ? myStream.getVideoTracks()[0] : myStream.getAudioTracks()[0];
+
+    try {
+      const newStream = await navigator.mediaDevices.getUserMedia(
+        isVideo
+          ? { video: { deviceId: { exact: deviceId } }, audio: false }
+          : { video: false, audio: { ...AUDIO_PROCESSING, deviceId: { exact: deviceId } } }
+      );
+      const newTrack = isVideo ? newStream.getVideoTracks()[0] : newStream.getAudioTracks()[0];
+
+      if (oldTrack) {
+        // Keep the mute/camera-off state across the switch
+        newTrack.enabled = oldTrack.enabled;
+        oldTrack.stop();
+      }
+
+      const updatedStream = new MediaStream([
+        ...myStream.getTracks().filter((t) => t !== oldTrack),
+        newTrack,
+      ]);
+
+      if (oldTrack) {
+        await PeerManager.setLocalStream(updatedStream);
+      } else {
+        await addTrackToPeers(newTrack, updatedStream);
+      }
+
+      setMyStream(updatedStream);
+      return true;
+    } catch (error) {
+      console.error(`Error switching ${isVideo ? "camera" : "microphone"}:`, error);
+      return false;
+    }
+  }, [myStream, setMyStream, addTrackToPeers]);
 
   const isVideoEnabled = useCallback(() => {
     const videoTrack = myStream?.getVideoTracks()[0];
@@ -332,8 +313,8 @@ export const useMedia = ({
   const testVideoPermissions = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
-        audio: true,
+        video: videoConstraint(),
+        audio: audioConstraint(),
       });
       setMyStream(stream);
       return stream;
@@ -343,54 +324,20 @@ export const useMedia = ({
     }
   }, []);
 
-  // useEffect(() => {
-  //   const setupListeners = () => {
-  //     const handleConnectionChange = () => {
-  //       setConnectionState(PeerService.peer.connectionState);
-  //     };
-
-  //     const handleIceConnectionChange = () => {
-  //       setIceConnectionState(PeerService.peer.iceConnectionState);
-  //     };
-
-  //     PeerService.peer.addEventListener('connectionstatechange', handleConnectionChange);
-  //     PeerService.peer.addEventListener('iceconnectionstatechange', handleIceConnectionChange);
-
-  //     return () => {
-  //       PeerService.peer.removeEventListener('connectionstatechange', handleConnectionChange);
-  //       PeerService.peer.removeEventListener('iceconnectionstatechange', handleIceConnectionChange);
-  //     };
-  //   };
-    
-  //   let cleanup = setupListeners();
-
-  //   const handlePeerReset = () => {
-  //     cleanup();
-  //     cleanup = setupListeners();
-  //   };
-
-  //   document.addEventListener('peer-reset', handlePeerReset);
-
-  //   return () => {
-  //     cleanup();
-  //     document.removeEventListener('peer-reset', handlePeerReset);
-  //   };
-  // }, []); 
-
   return {
     myStream,
     setMyStream,
-    remoteStream,
-    setRemoteStream,
     myVideoRef,
-    remoteVideoRef,
+    screenStream,
+    isScreenSharing: !!screenStream,
+    startScreenShare,
+    stopScreenShare,
+    switchDevice,
     testVideoPermissions,
     endCall,
     toggleVideo,
     toggleAudio,
     isVideoEnabled,
     isAudioEnabled,
-    connectionState,
-    iceConnectionState
   };
 };
\ No newline at end of file
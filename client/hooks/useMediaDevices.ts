@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DeviceKind,
+  getPreferredDeviceId,
+  setPreferredDeviceId,
+  supportsOutputSelection,
+} from "@/lib/mediaDevices";
+
+export const useMediaDevices = () => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selected, setSelected] = useState<Record<DeviceKind, string | null>>(() => ({
+    videoinput: getPreferredDeviceId("videoinput"),
+    audioinput: getPreferredDeviceId("audioinput"),
+    audiooutput: getPreferredDeviceId("audiooutput"),
+  }));
+  const [canSelectOutput, setCanSelectOutput] = useState(false);
+
+  // Labels stay empty until the page has been granted media permission,
+  // so callers refresh again once they hold a stream
+  const refresh = useCallback(async () => {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const list = await navigator.mediaDevices.enumerateDevices();
+      setDevices(list.filter((d) => d.deviceId));
+    } catch (error) {
+      console.error("Error enumerating devices:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setCanSelectOutput(supportsOutputSelection());
+    refresh();
+
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => mediaDevices.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  const selectDevice = useCallback((kind: DeviceKind, deviceId: string | null) => {
+    setPreferredDeviceId(kind, deviceId);
+    setSelected((prev) => ({ ...prev, [kind]: deviceId }));
+  }, []);
+
+  return {
+    videoInputs: devices.filter((d) => d.kind === "videoinput"),
+    audioInputs: devices.filter((d) => d.kind === "audioinput"),
+    audioOutputs: devices.filter((d) => d.kind === "audiooutput"),
+    selected,
+    selectDevice,
+    refresh,
+    canSelectOutput,
+  };
+};
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useRef } from "react";
+import PeerManager from "../services/peerManager";
+import type { DataHandler, SendOptions } from "../services/dataChannel";
+
+// Subscribes to one type of peer-to-peer message for as long as the component
+// is mounted, and returns a function that sends that type to everyone (or, with
+// `to`, to one participant). Messages go over the data channels when open and
+// through the socket relay otherwise.
+export const usePeerMessages = <T>(type: string, handler?: DataHandler<T>) => {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return PeerManager.subscribe<T>(type, (payload, envelope, fromId) => {
+      handlerRef.current?.(payload, envelope, fromId);
+    });
+  }, [type]);
+
+  return useCallback(
+    (payload: T, { to, ...options }: SendOptions & { to?: string } = {}) =>
+      to ? PeerManager.send(to, type, payload, options) : PeerManager.broadcast(type, payload, options),
+    [type]
+  );
+};
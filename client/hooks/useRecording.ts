@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ActivityKind } from "@/lib/activities";
+import {
+  MeetingRecorder,
+  isRecordingSupported,
+  type RecordingSource,
+} from "../services/meetingRecorder";
+
+export interface FinishedRecording {
+  url: string;
+  fileName: string;
+  size: number;
+}
+
+// Local recording of the meeting. Everyone else in the room is told through
+// the "recording" activity so they can see they are being recorded.
+export const useRecording = ({
+  room,
+  getSources,
+  startActivity,
+  stopActivity,
+}: {
+  room: string;
+  getSources: () => RecordingSource[];
+  startActivity: (kind: ActivityKind) => void;
+  stopActivity: (kind: ActivityKind) => void;
+}) => {
+
+  const [isRecording, setIsRecording] = useState(false);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [recording, setRecording] = useState<FinishedRecording | null>(null);
+  // Checked after mount so the server render matches the first client render
+  const [isSupported, setIsSupported] = useState(false);
+
+  const recorderRef = useRef<MeetingRecorder | null>(null);
+  const getSourcesRef = useRef(getSources);
+
+  useEffect(() => {
+    getSourcesRef.current = getSources;
+  }, [getSources]);
+
+  useEffect(() => {
+    setIsSupported(isRecordingSupported());
+  }, []);
+
+  // The object URL is revoked by the effect below
+  const discardRecording = useCallback(() => {
+    setRecording(null);
+  }, []);
+
+  const startRecording = useCallback(() => {
+    if (recorderRef.current || !isRecordingSupported()) return false;
+
+    try {
+      const recorder = new MeetingRecorder({ getSources: () => getSourcesRef.current() });
+      recorder.start();
+      recorderRef.current = recorder;
+    } catch (err) {
+      console.error("Error starting recording:", err);
+      return false;
+    }
+
+    discardRecording();
+    setIsRecording(true);
+    setStartedAt(Date.now());
+    startActivity("recording");
+    return true;
+  }, [startActivity, discardRecording]);
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+
+    setIsRecording(false);
+    setStartedAt(null);
+    stopActivity("recording");
+
+    try {
+      const blob = await recorder.stop();
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      setRecording({
+        url: URL.createObjectURL(blob),
+        fileName: `meeting-${room || "recording"}-${stamp}.webm`,
+        size: blob.size,
+      });
+    } catch (err) {
+      console.error("Error finishing recording:", err);
+    }
+  }, [stopActivity, room]);
+
+  // Saves a PNG of the meeting straight away; others are told it happened
+  const takeScreenshot = useCallback(async () => {
+    try {
+      const blob = await new MeetingRecorder({ getSources: () => getSourcesRef.current() }).snapshot();
+      const url = URL.createObjectURL(blob);
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `meeting-${room || "screenshot"}-${stamp}.png`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      startActivity("screenshot");
+    } catch (err) {
+      console.error("Error taking screenshot:", err);
+    }
+  }, [startActivity, room]);
+
+  // Leaving the page ends the recording and frees the last download
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stop().catch(() => {});
+      recorderRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (recording) URL.revokeObjectURL(recording.url);
+    };
+  }, [recording]);
+
+  return {
+    isSupported,
+    isRecording,
+    startedAt,
+    startRecording,
+    stopRecording,
+    recording,
+    discardRecording,
+    takeScreenshot,
+  };
+};
@@ -1,19 +1,34 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useSearchParams, useParams, useRouter } from "next/navigation";
 import { useSocket } from "@/context/Socket";
 import { useMedia } from "./useMedia";
 import { useSignaling } from "./useSignaling";
+import { useConnectionRecovery } from "./useConnectionRecovery";
 import socketService from "@/services/socket";
-import PeerService from "../services/peer";
+import type { JoinRejectionReason } from "../services/rooms";
+import { audioConstraint, videoConstraint } from "@/lib/mediaDevices";
+import { getParticipantId, getResumeToken } from "@/lib/participantId";
+import { getHostKey } from "@/lib/hostKey";
+import type { ActivityKind } from "@/lib/activities";
+import type { ChatMessage } from "@/lib/chat";
 import { use } from "react";
 
+// Someone else capturing the call, waiting for our decision
+type ConsentRequest = {
+  participantId: string;
+  userName: string;
+  kind: ActivityKind;
+};
+
+type RoomMessage = ChatMessage;
+
 export const useRoom = () => {
   const params = useParams();
   const searchParams = useSearchParams();
   const router = useRouter();
   const socket = useSocket();
 
-  const localSocketId = socket?.id ?? null;
+  const localParticipantId = getParticipantId();
   
   // Safe access to params
   const roomIdFromUrl = typeof params?.roomId === 'string' ? params.roomId : '';
@@ -34,10 +49,10 @@ export const useRoom = () => {
     }
     return "You";
   });
-  const [remoteSocketId, setRemoteSocketId] = useState<string | null>(null);
-  const [remoteUserName, setRemoteUserName] = useState<string>("Remote User");
-  const [roomFullError, setRoomFullError] = useState<string | null>(null);
-  const hasInitiatedCall = useRef(false);
+  const [joinError, setJoinError] = useState<{
+    reason: JoinRejectionReason | "closed";
+    message: string;
+  } | null>(null);
 
 
 // Store in sessionStorage on mount
@@ -55,64 +70,67 @@ export const useRoom = () => {
     }
   }, [usernameFromQuery, roomIdFromUrl]);
 
-  // In useRoom.ts - Replace the entire join effect with this:
+  // Media hook with router passed
+  const media = useMedia({
+    localUserName,
+    room,
+    navigate: router, 
+    socket
+  });
+
+  // Signaling hook
+  const signaling = useSignaling();
+
+  // Join the room, and join again whenever Socket.IO reconnects. The
+  // participant id stays the same, so within the server's grace window we
+  // resume our seat; otherwise useSignaling rebuilds the peers while the
+  // local camera/mic keep running.
   useEffect(() => {
-    if (!socket?.connected || !room || !localUserName) {
-      
-      return;
-    }
+    if (!socket || !room || !localUserName) return;
 
-    // Use a ref to track if we've joined
     let hasJoinedThisSession = false;
 
     const joinRoom = () => {
-      if (hasJoinedThisSession) return;
-      socket.emit("room:join", { room, userName: localUserName });
+      socket.emit("room:join", {
+        room,
+        userName: localUserName,
+        participantId: getParticipantId(),
+        resumeToken: getResumeToken(),
+        hostKey: getHostKey(room),
+      });
       hasJoinedThisSession = true;
     };
 
     // Small delay to prevent rapid join/leave cycles
-    const timeoutId = setTimeout(joinRoom, 100);
+    const timeoutId = socket.connected ? setTimeout(joinRoom, 100) : null;
+    socket.on("connect", joinRoom);
 
     // Cleanup only on unmount (component removal), not on re-renders
     return () => {
-      clearTimeout(timeoutId);
+      if (timeoutId) clearTimeout(timeoutId);
+      socket.off("connect", joinRoom);
       // Only emit leave if we actually joined
-      if (hasJoinedThisSession && socket?.connected) {
+      if (hasJoinedThisSession && socket.connected) {
         socket.emit("leave:room", { room });
       }
     };
-  }, [socket?.id, room, localUserName]); 
-  
-  // Media hook with router passed
-  const media = useMedia({
-    remoteSocketId,
-    localUserName,
-    remoteUserName,
-    setRemoteUserName,
-    room,
-    navigate: router, 
-    socket
-  });
+  }, [socket, room, localUserName]);
 
-  // Signaling hook
-  const signaling = useSignaling({
-    myStream: media.myStream,
-    setMyStream: media.setMyStream,
-    setRemoteStream: media.setRemoteStream,
-    setRemoteUserName,
-    setRemoteSocketId,
-    remoteSocketId, 
-    localUserName,
+  const recovery = useConnectionRecovery({
+    participants: signaling.participants,
+    enabled: !!room && !joinError,
   });
 
-  // Sync remoteSocketId from signaling
-  useEffect(() => {
-    const sigId = signaling.remoteSocketId ?? null;
-    if (sigId !== remoteSocketId) {
-      setRemoteSocketId(sigId);
-    }
-  }, [signaling.remoteSocketId, remoteSocketId]);
+  const { participants } = signaling;
+  const participantIds = useMemo(() => Object.keys(participants), [participants]);
+
+  // Summarise every peer connection into a single state for the header badge
+  const connectionState = useMemo<RTCPeerConnectionState>(() => {
+    const states = Object.values(participants).map((p) => p.connectionState);
+    if (states.length === 0) return "new";
+    if (states.every((state) => state === "connected")) return "connected";
+    return states.find((state) => state !== "connected") ?? "new";
+  }, [participants]);
 
   // Auto-start media with stored preferences
   useEffect(() => {
@@ -125,14 +143,14 @@ export const useRoom = () => {
       if (socket && !media.myStream) {
         try {
           // FIXED: Ensure at least one media type is requested
-          const constraints = {
-            video: videoEnabled,
-            audio: audioEnabled
+          const constraints: MediaStreamConstraints = {
+            video: videoEnabled && videoConstraint(),
+            audio: audioEnabled && audioConstraint()
           };
           
           // If both are disabled, request audio to get permission, then disable it
           if (!videoEnabled && !audioEnabled) {
-            constraints.audio = true;
+            constraints.audio = audioConstraint();
           }
           
           const stream = await navigator.mediaDevices.getUserMedia(constraints);
@@ -155,49 +173,6 @@ export const useRoom = () => {
     return () => clearTimeout(timer);
   }, [socket, media]);
 
-  const { handleCallUser } = signaling; 
-
-  // AUTO-CALL: automatically initiate call if conditions are met
-  useEffect(() => {
-    const autoCall = async () => {
-      if (
-        hasInitiatedCall.current ||
-        !remoteSocketId ||
-        !localSocketId ||
-        !handleCallUser
-      ) return;
-
-      if (media.remoteStream) return;
-
-      const peer = await PeerService.getPeer();
-      const peerState = peer?.connectionState;
-
-      if (peerState !== "new") return;
-
-      const amITheCaller = localSocketId < remoteSocketId;
-
-      if (amITheCaller) {
-        hasInitiatedCall.current = true;
-
-        const timer = setTimeout(() => {
-          handleCallUser();
-        }, 500);
-
-        return () => clearTimeout(timer);
-      }
-    };
-
-    autoCall();
-  }, [remoteSocketId, localSocketId, handleCallUser]);
-
-
-  useEffect(() => {
-  if (!remoteSocketId) {
-    // Remote left, reset call flag
-    hasInitiatedCall.current = false;
-  }
-}, [remoteSocketId]);
-
   // Handle page reload/close with confirmation
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
@@ -206,10 +181,10 @@ export const useRoom = () => {
       
       try {
         if (socket) {
-          socket.emit("user:disconnecting", { id: socket.id, room });
-          if (remoteSocketId) {
-            socket.emit("call:end", { to: remoteSocketId });
-          }
+          socket.emit("user:disconnecting", { id: localParticipantId, room });
+          participantIds.forEach((remoteId) => {
+            socket.emit("call:end", { to: remoteId });
+          });
           socket.emit("leave:room");
         }
 
@@ -227,7 +202,7 @@ export const useRoom = () => {
 
     window.addEventListener("beforeunload", handleBeforeUnload);
     return () => window.removeEventListener("beforeunload", handleBeforeUnload);
-  }, [socket, media.myStream, remoteSocketId, room]);
+  }, [socket, media.myStream, participantIds, room]);
 
   // Handle browser back button
   useEffect(() => {
@@ -256,129 +231,295 @@ export const useRoom = () => {
   }, []); // Empty deps - only run once on mount
 
     // Add state for messages
-  const [messages, setMessages] = useState<Array<{
-    id: number;
-    sender: string;
-    text: string;
-    timestamp: Date;
-    isLocal: boolean;
-  }>>([]);
+  const [messages, setMessages] = useState<RoomMessage[]>([]);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   useEffect(() => {
     if (!socket) return;
 
+    const toRoomMessage = (data: any): RoomMessage => ({
+      ...data,
+      timestamp: new Date(data.timestamp),
+      editedAt: data.editedAt ? new Date(data.editedAt) : undefined,
+      isLocal: !!data.senderId && data.senderId === getParticipantId(),
+    });
+
     const handleChatMessage = (data: any) => {
       setMessages((prev) => {
         // Prevent duplicates by checking if message already exists
         const exists = prev.some(msg => msg.id === data.id);
         if (exists) return prev;
         
-        return [
-          ...prev,
-          {
-            ...data,
-            timestamp: new Date(data.timestamp),
-            isLocal: data.sender === localUserName,
-          },
-        ];
+        return [...prev, toRoomMessage(data)];
+      });
+    };
+
+    // Edited, deleted or reacted-to message
+    const handleChatUpdated = (data: any) => {
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === data.id ? toRoomMessage(data) : msg))
+      );
+    };
+
+    // History pages (on join and on request) are merged with what we already show
+    const handleChatHistory = ({ messages: page, hasMore, before }: {
+      messages: any[];
+      hasMore: boolean;
+      before: RoomMessage["id"] | null;
+    }) => {
+      setMessages((prev) => {
+        const known = new Set(prev.map(msg => msg.id));
+        const missing = page.filter(msg => !known.has(msg.id)).map(toRoomMessage);
+        if (missing.length === 0) return prev;
+
+        return [...missing, ...prev].sort(
+          (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+        );
       });
+
+      // The join replay must not hide an older page we already paged past
+      setHasMoreHistory((prev) => (before === null ? prev || hasMore : hasMore));
+      setIsLoadingHistory(false);
     };
 
     socket.on("chat:message", handleChatMessage);
+    socket.on("chat:history", handleChatHistory);
+    socket.on("chat:updated", handleChatUpdated);
 
     return () => {
       socket.off("chat:message", handleChatMessage);
+      socket.off("chat:history", handleChatHistory);
+      socket.off("chat:updated", handleChatUpdated);
     };
-  }, [socket, localUserName]);
+  }, [socket]);
+
+  const loadOlderMessages = useCallback(() => {
+    if (!socket || isLoadingHistory || !hasMoreHistory) return;
+
+    setIsLoadingHistory(true);
+    socket.emit("chat:history", { before: messages[0]?.id ?? null });
+  }, [socket, isLoadingHistory, hasMoreHistory, messages]);
 
   // Add sendMessage function
-  const sendMessage = useCallback((text: string) => {
+  const sendMessage = useCallback((text: string, replyTo?: RoomMessage["id"]) => {
     if (!socket || !room || !text.trim()) return;
     
-    socket.emit("chat:message", {
-      room,
-      message: text,
-      userName: localUserName,
-    });
-  }, [socket, room, localUserName]);
+    // The server fills in who sent it and the id
+    socket.emit("chat:message", { message: text, replyTo });
+  }, [socket, room]);
+
+  // The server only applies these to our own messages and answers with "chat:updated"
+  const editMessage = useCallback((id: RoomMessage["id"], text: string) => {
+    if (!text.trim()) return;
+    socket?.emit("chat:edit", { id, text });
+  }, [socket]);
+
+  const deleteMessage = useCallback((id: RoomMessage["id"]) => {
+    socket?.emit("chat:delete", { id });
+  }, [socket]);
+
+  const toggleReaction = useCallback((id: RoomMessage["id"], emoji: string) => {
+    socket?.emit("chat:react", { id, emoji });
+  }, [socket]);
 
   // In useRoom.tsx
   const clearChat = useCallback(() => {
     setMessages([]);
+    setHasMoreHistory(false);
   }, []);
 
-  // Update endCall to call clearChat
-  useEffect(() => {
-    if (!remoteSocketId) {
-      clearChat(); // Clear messages when remote leaves
-    }
-  }, [remoteSocketId, clearChat]);
-
-    // Handle room full error
+  // Handle join rejections and rooms closed while we are inside
   useEffect(() => {
     if (!socket) return;
 
-    const handleRoomFull = ({ room, message }: { room: string; message: string }) => {
-      setRoomFullError(message);
-      
-      // Clean up media
+    const stopLocalMedia = () => {
       if (media.myStream) {
         media.myStream.getTracks().forEach((track) => {
           try { track.stop(); } catch (e) {}
         });
         media.setMyStream(null);
       }
+    };
 
-      // Show alert
-      alert(`Unable to join room: ${message}`);
-      
-      // Redirect to home after 1 second
-      setTimeout(() => {
-        router.push('/');
-      }, 1000);
+    const handleJoinRejected = ({ reason, message }: {
+      room: string;
+      reason: JoinRejectionReason;
+      message: string;
+    }) => {
+      setJoinError({ reason, message });
+      stopLocalMedia();
+    };
+
+    const handleRoomClosed = ({ reason }: { room: string; reason: string }) => {
+      setJoinError({
+        reason: "closed",
+        message: reason === "expired"
+          ? "This meeting has expired."
+          : "This meeting has been ended.",
+      });
+      stopLocalMedia();
+    };
+
+    socket.on("room:join:rejected", handleJoinRejected);
+    socket.on("room:closed", handleRoomClosed);
+
+    return () => {
+      socket.off("room:join:rejected", handleJoinRejected);
+      socket.off("room:closed", handleRoomClosed);
+    };
+  }, [socket, media]);
+
+  // -- Activities: announce what we capture, ask before staying in what others capture --
+  // Ongoing activities of other participants, id -> { userName, kinds }
+  const [remoteActivities, setRemoteActivities] = useState<
+    Record<string, { userName: string; kinds: ActivityKind[] }>
+  >({});
+  const [consentRequests, setConsentRequests] = useState<ConsentRequest[]>([]);
+  const localActivities = useRef(new Set<ActivityKind>());
+
+  const startActivity = useCallback((kind: ActivityKind) => {
+    if (kind !== "screenshot") localActivities.current.add(kind);
+    socket?.emit("activity:started", { kind });
+  }, [socket]);
+
+  const stopActivity = useCallback((kind: ActivityKind) => {
+    if (!localActivities.current.delete(kind)) return;
+    socket?.emit("activity:stopped", { kind });
+  }, [socket]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const askForConsent = (request: ConsentRequest) => {
+      setConsentRequests((prev) =>
+        prev.some((r) => r.participantId === request.participantId && r.kind === request.kind)
+          ? prev
+          : [...prev, request]
+      );
     };
 
-    socket.on("room:full", handleRoomFull);
+    const handleRoomJoined = ({ users }: any) => {
+      const activities: Record<string, { userName: string; kinds: ActivityKind[] }> = {};
+      (users ?? []).forEach((u: any) => {
+        if (u.id === getParticipantId() || !u.activities?.length) return;
+        activities[u.id] = { userName: u.userName, kinds: u.activities };
+        u.activities.forEach((kind: ActivityKind) =>
+          askForConsent({ participantId: u.id, userName: u.userName, kind })
+        );
+      });
+      setRemoteActivities(activities);
+
+      // The server forgets our activities if it dropped us; tell it again
+      localActivities.current.forEach((kind) => socket.emit("activity:started", { kind }));
+    };
+
+    const handleActivityStarted = ({ id, userName, kind }: any) => {
+      if (kind !== "screenshot") {
+        setRemoteActivities((prev) => {
+          const current = prev[id]?.kinds ?? [];
+          if (current.includes(kind)) return prev;
+          return { ...prev, [id]: { userName, kinds: [...current, kind] } };
+        });
+      }
+      askForConsent({ participantId: id, userName, kind });
+    };
+
+    const handleActivityStopped = ({ id, kind }: any) => {
+      setRemoteActivities((prev) => {
+        const current = prev[id];
+        if (!current) return prev;
+        const kinds = current.kinds.filter((k) => k !== kind);
+        const { [id]: _removed, ...rest } = prev;
+        return kinds.length > 0 ? { ...rest, [id]: { ...current, kinds } } : rest;
+      });
+      setConsentRequests((prev) => prev.filter((r) => !(r.participantId === id && r.kind === kind)));
+    };
+
+    const handleUserLeft = ({ id }: any) => {
+      setRemoteActivities((prev) => {
+        if (!prev[id]) return prev;
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      });
+      setConsentRequests((prev) => prev.filter((r) => r.participantId !== id));
+    };
+
+    socket.on("room:joined", handleRoomJoined);
+    socket.on("activity:started", handleActivityStarted);
+    socket.on("activity:stopped", handleActivityStopped);
+    socket.on("user:left", handleUserLeft);
 
     return () => {
-      socket.off("room:full", handleRoomFull);
+      socket.off("room:joined", handleRoomJoined);
+      socket.off("activity:started", handleActivityStarted);
+      socket.off("activity:stopped", handleActivityStopped);
+      socket.off("user:left", handleUserLeft);
     };
-  }, [socket, router, media]);
+  }, [socket]);
+
+  // Answers the oldest consent request; declining leaves the meeting
+  const respondToConsent = useCallback((accepted: boolean) => {
+    const request = consentRequests[0];
+    if (!request) return;
+
+    socket?.emit("activity:consent", {
+      ownerId: request.participantId,
+      kind: request.kind,
+      accepted,
+    });
+    setConsentRequests((prev) => prev.slice(1));
+
+    if (!accepted) media.endCall();
+  }, [socket, consentRequests, media]);
 
   return {
     usernameFromQuery,
     localUserName,
     setLocalUserName,
-    remoteUserName,
-    setRemoteUserName,
-    remoteSocketId,
+    participants,
     socket,
-    localSocketId,
+    localParticipantId,
     room,
     setRoom,
     messages,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     clearChat,
-    roomFullError,
+    hasMoreHistory,
+    isLoadingHistory,
+    loadOlderMessages,
+    joinError,
     // media API
     myStream: media.myStream,
     setMyStream: media.setMyStream,
-    remoteStream: media.remoteStream,
-    setRemoteStream: media.setRemoteStream,
     myVideoRef: media.myVideoRef,
-    remoteVideoRef: media.remoteVideoRef,
+    screenStream: media.screenStream,
+    isScreenSharing: media.isScreenSharing,
+    startScreenShare: media.startScreenShare,
+    stopScreenShare: media.stopScreenShare,
+    switchDevice: media.switchDevice,
     testVideoPermissions: media.testVideoPermissions,
     endCall: media.endCall,
     toggleVideo: media.toggleVideo,
     toggleAudio: media.toggleAudio,
     isVideoEnabled: media.isVideoEnabled,
     isAudioEnabled: media.isAudioEnabled,
-    connectionState: media.connectionState,
-    iceConnectionState: media.iceConnectionState,
+    connectionState,
+    // activity API
+    remoteActivities,
+    consentRequest: consentRequests[0] ?? null,
+    respondToConsent,
+    startActivity,
+    stopActivity,
+    // recovery API
+    recoveryStatus: recovery.status,
+    recoveringIds: recovery.recoveringIds,
+    lostIds: recovery.lostIds,
+    retryConnection: recovery.retry,
     // signaling API
-    handleCallUser: signaling.handleCallUser,
-    handleCallAccepted: signaling.handleCallAccepted,
-    handleIncomingCall: signaling.handleIncomingCall,
     handleUserJoined: signaling.handleUserJoined,
   };
 };
\ No newline at end of file
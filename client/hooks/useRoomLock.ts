@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSocket } from "../context/Socket";
+import { getRoom, setRoomLocked, type RoomInfo } from "@/services/rooms";
+import { getHostKey } from "@/lib/hostKey";
+
+// Whether the room still lets people in. Everyone follows room:updated; only
+// the host, who holds the host key, can change it.
+export const useRoomLock = (room: string) => {
+  const socket = useSocket();
+  const [locked, setLocked] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    if (!room) return;
+    let cancelled = false;
+    getRoom(room)
+      .then((info) => {
+        if (!cancelled) setLocked(info.locked);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [room]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdated = (info: RoomInfo) => {
+      if (info.id === room) setLocked(info.locked);
+    };
+
+    socket.on("room:updated", handleUpdated);
+    return () => {
+      socket.off("room:updated", handleUpdated);
+    };
+  }, [socket, room]);
+
+  const toggleLocked = useCallback(async () => {
+    const hostKey = getHostKey(room);
+    if (!hostKey || isUpdating) return;
+
+    setIsUpdating(true);
+    try {
+      const info = await setRoomLocked(room, !locked, hostKey);
+      setLocked(info.locked);
+    } catch (err) {
+      console.error("Error changing the room lock:", err);
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [room, locked, isUpdating]);
+
+  return { locked, isUpdating, toggleLocked };
+};
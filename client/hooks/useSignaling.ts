@@ -1,363 +1,266 @@
-import { useCallback, useEffect, useRef } from "react";
-import PeerService from "../services/peer";
+import { useCallback, useEffect, useRef, useState } from "react";
+import PeerManager from "../services/peerManager";
 import { useSocket } from "../context/Socket";
-
-export const useSignaling = (opts: {
-  myStream: MediaStream | null;
-  setMyStream: (s: MediaStream | null) => void;
-  setRemoteStream: (s: MediaStream | null) => void;
-  setRemoteUserName: (s: string) => void;
-  setRemoteSocketId: (s: string | null) => void;
-  remoteSocketId: string | null;
-  localUserName: string;
-}) => {
-  const { myStream, setMyStream, setRemoteStream, setRemoteUserName, remoteSocketId, setRemoteSocketId, localUserName } = opts;
+import { getParticipantId } from "@/lib/participantId";
+
+export interface Participant {
+  id: string;
+  userName: string;
+  stream: MediaStream | null;
+  // Announced via "screen:started" so its track can be told apart from the camera
+  screenStreamId: string | null;
+  screenStream: MediaStream | null;
+  connectionState: RTCPeerConnectionState;
+}
+
+// Connections are negotiated with the perfect-negotiation pattern (services/peer.ts):
+// both sides create their peer as soon as they learn about each other and
+// `negotiationneeded` sends the offers, so there is no designated caller.
+export const useSignaling = () => {
   const socket = useSocket();
 
-  const iceCandidateQueue = useRef<RTCIceCandidateInit[]>([]);
-  const isRemoteDescriptionSet = useRef(false);
-  const hasInitiatedCall = useRef(false);
-  const isProcessingCall = useRef(false);
-
-  // Helper: get media constraints from sessionStorage
-  const getMediaConstraints = useCallback(() => {
-    if (typeof window === 'undefined') {
-      return { video: true, audio: true };
-    }
-    
-    const videoEnabled = sessionStorage.getItem("videoEnabled") !== "false";
-    const audioEnabled = sessionStorage.getItem("audioEnabled") !== "false";
-    
-    // If both are disabled, enable audio by default to allow getUserMedia to work
-    if (!videoEnabled && !audioEnabled) {
-      return { video: false, audio: {
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      }
+  const [participants, setParticipants] = useState<Record<string, Participant>>({});
+  // Every stream received from each participant, keyed by stream id
+  const remoteStreams = useRef(new Map<string, Map<string, MediaStream>>());
+
+  const upsertParticipant = useCallback((id: string, patch: Partial<Participant>) => {
+    setParticipants((prev) => {
+      const current: Participant = prev[id] ?? {
+        id,
+        userName: "Remote User",
+        stream: null,
+        screenStreamId: null,
+        screenStream: null,
+        connectionState: "new",
       };
-    }
-    
-    return { video: videoEnabled, audio: audioEnabled };
-  }, []);
+      const next = { ...current, ...patch };
 
-  // Helper: process queued ICE candidates
-  const processIceCandidateQueue = useCallback(async () => {
-    while (iceCandidateQueue.current.length > 0) {
-      const c = iceCandidateQueue.current.shift();
-      if (!c) continue;
-      try {
-        await PeerService.addIceCandidate(c);
-      } catch (err) {
-        console.error("Error adding queued ICE candidate:", err);
+      // Split the received streams into camera and screen share
+      const streams = remoteStreams.current.get(id);
+      if (streams) {
+        next.screenStream = next.screenStreamId ? streams.get(next.screenStreamId) ?? null : null;
+        next.stream = Array.from(streams.values()).find((st) => st.id !== next.screenStreamId) ?? null;
       }
-    }
-  }, []);
-
-  // Handle room joined
-  const handleRoomJoined = useCallback(({ users }: any) => {
-    const otherUser = users?.find((u: any) => u.id !== socket?.id);
-    
-    if (otherUser) {
-      setRemoteSocketId(otherUser.id);
-      setRemoteUserName(otherUser.userName);
-      hasInitiatedCall.current = false;
-    }
-  }, [socket, setRemoteUserName, setRemoteSocketId]);
 
-  // Handle user joined
-  const handleUserJoined = useCallback(({ userName, id }: any) => {
-    setRemoteSocketId(id);
-    setRemoteUserName(userName);
-    hasInitiatedCall.current = false;
-  }, [setRemoteUserName, setRemoteSocketId]);
-
-  // Initiate call (offerer) - FIXED: Use existing stream or respect video/audio preferences
-  const handleCallUser = useCallback(async () => {
-    if (isProcessingCall.current || hasInitiatedCall.current) return;
-    if (!remoteSocketId) {
-      // console.warn("No remoteSocketId, cannot call");
-      return;
-    }
+      return { ...prev, [id]: next };
+    });
+  }, []);
 
-    try {
-      isProcessingCall.current = true;
-      hasInitiatedCall.current = true;
-
-      let stream = myStream;
-      if (!stream) {
-        // Get constraints
-        const constraints = getMediaConstraints();
-        stream = await navigator.mediaDevices.getUserMedia(constraints);
-        
-        // If user disabled audio/video in preview, disable them after getting permission
-        const videoWanted = sessionStorage.getItem("videoEnabled") !== "false";
-        const audioWanted = sessionStorage.getItem("audioEnabled") !== "false";
-        
-        stream.getVideoTracks().forEach(track => {
-          track.enabled = videoWanted;
-        });
-        stream.getAudioTracks().forEach(track => {
-          track.enabled = audioWanted;
-        });
-        
-        setMyStream(stream);
+  // Create the connection to a remote participant and wire its events
+  const ensurePeer = useCallback((remoteId: string) => {
+    const existing = PeerManager.get(remoteId);
+    if (existing) return existing;
+
+    // Fixed tie-break so exactly one side of each pair is polite
+    const polite = getParticipantId() > remoteId;
+
+    const peerService = PeerManager.create(remoteId, {
+      polite,
+      signaler: {
+        sendDescription: (description) => {
+          socket?.emit("peer:description", { to: remoteId, description });
+        },
+        sendCandidate: (candidate) => {
+          socket?.emit("ice:candidate", { to: remoteId, candidate });
+        },
+        relayMessage: (message) => {
+          socket?.emit("peer:message", { to: remoteId, message });
+        },
+      },
+    });
+
+    peerService.onTrack((ev: RTCTrackEvent) => {
+      if (ev.streams && ev.streams[0]) {
+        const streams = remoteStreams.current.get(remoteId) ?? new Map<string, MediaStream>();
+        streams.set(ev.streams[0].id, ev.streams[0]);
+        remoteStreams.current.set(remoteId, streams);
+        upsertParticipant(remoteId, {});
+      } else {
+        // console.warn("Track event had no streams");
       }
+    });
 
-      PeerService.addLocalStream(stream);
-      const offer = await PeerService.getOffer();
-      socket?.emit("user:call", { to: remoteSocketId, offer, userName: localUserName });
-    } catch (err) {
-      console.error("Error in handleCallUser:", err);
-      hasInitiatedCall.current = false;
-    } finally {
-      isProcessingCall.current = false;
-    }
-  }, [remoteSocketId, socket, myStream, setMyStream, localUserName, getMediaConstraints]);
+    peerService.onConnectionStateChange((connectionState) => {
+      upsertParticipant(remoteId, { connectionState });
+    });
 
-  // Incoming call (answerer flow) - FIXED: Use existing stream or respect video/audio preferences
-  const handleIncomingCall = useCallback(async ({ from, offer, userName }: any) => {
-    if (isProcessingCall.current) {
-      console.warn("Already processing a call, rejecting incoming");
-      return;
-    }
+    return peerService;
+  }, [socket, upsertParticipant]);
 
+  // Handle user joined
+  const handleUserJoined = useCallback(({ userName, id }: any) => {
+    upsertParticipant(id, { userName });
+    ensurePeer(id);
+  }, [upsertParticipant, ensurePeer]);
+
+  // Participant came back within the grace window; their peer is kept and
+  // recovers through ICE restarts
+  const handleUserReconnected = useCallback(({ userName, id }: any) => {
+    upsertParticipant(id, { userName });
+    ensurePeer(id);
+  }, [upsertParticipant, ensurePeer]);
+
+  // Offer or answer from a remote participant
+  const handleRemoteDescription = useCallback(async ({ from, description }: any) => {
+    if (!from || !description) return;
     try {
-      isProcessingCall.current = true;
-      setRemoteSocketId(from);
-      setRemoteUserName(userName || "Remote User");
-
-      let stream = myStream;
-      if (!stream) {
-        // Get constraints
-        const constraints = getMediaConstraints();
-        stream = await navigator.mediaDevices.getUserMedia(constraints);
-        
-        // If user disabled audio/video in preview, disable them after getting permission
-        const videoWanted = sessionStorage.getItem("videoEnabled") !== "false";
-        const audioWanted = sessionStorage.getItem("audioEnabled") !== "false";
-        
-        stream.getVideoTracks().forEach(track => {
-          track.enabled = videoWanted;
-        });
-        stream.getAudioTracks().forEach(track => {
-          track.enabled = audioWanted;
-        });
-        
-        setMyStream(stream);
-      }
-
-      PeerService.addLocalStream(stream);
-      
-      // getAnswer handles setRemoteDescription internally
-      const ans = await PeerService.getAnswer(offer);
-      isRemoteDescriptionSet.current = true;
-
-      socket?.emit("call:accepted", { to: from, ans, userName: localUserName });
-      await processIceCandidateQueue();
+      await ensurePeer(from).handleRemoteDescription(description);
     } catch (err) {
-      console.error("Error handling incoming call:", err);
-      isRemoteDescriptionSet.current = false;
-    } finally {
-      isProcessingCall.current = false;
-    }
-  }, [myStream, setMyStream, socket, processIceCandidateQueue, setRemoteUserName, localUserName, setRemoteSocketId, getMediaConstraints]);
-
-  // Call accepted by remote (offerer receives answer)
-  const handleCallAccepted = useCallback(async ({ from, ans, userName }: any) => {
-    const peer = await PeerService.getPeer(); // await
-    if (!peer) return;
-
-    const signalingState = peer.signalingState;
-    
-    // If already stable, the call is already established - ignore
-    if (signalingState === "stable") {
-      return;
-    }
-
-    if (signalingState !== "have-local-offer") {
-      console.warn("Cannot accept call in state:", signalingState);
-      return;
+      console.error("Error applying remote description:", err);
     }
+  }, [ensurePeer]);
 
+  // Remote ICE candidates (queued by the peer until its remote description is set)
+  const handleIncomingIceCandidate = useCallback(async ({ from, candidate }: any) => {
+    if (!candidate || !from) return;
     try {
-      await PeerService.setRemoteAnswer(ans);
-      isRemoteDescriptionSet.current = true;
-      if (userName) setRemoteUserName(userName);
-      await processIceCandidateQueue();
+      await ensurePeer(from).addIceCandidate(candidate);
     } catch (err) {
-      console.error("Error in handleCallAccepted:", err);
+      console.error("Error adding remote ICE candidate:", err);
     }
-  }, [setRemoteUserName, processIceCandidateQueue]);
+  }, [ensurePeer]);
 
-  // Handle remote track events
-  useEffect(() => {
-    let cleanup = () => {};
-
-    const attachTrackListener = async () => {
-      const peer = await PeerService.getPeer();
-      if (!peer) return;
-
-      const onTrackHandler = (ev: RTCTrackEvent) => {
-        if (ev.streams && ev.streams[0]) {
-          setRemoteStream(ev.streams[0]);
-        } else {
-          // console.warn("Track event had no streams");
-        }
-      };
-
-      peer.addEventListener("track", onTrackHandler);
+  // Data message relayed by the server while the data channel is not open
+  const handleRelayedMessage = useCallback(({ from, message }: any) => {
+    if (!from || !message) return;
+    ensurePeer(from).receive(message);
+  }, [ensurePeer]);
 
-      cleanup = () => {
-        peer.removeEventListener("track", onTrackHandler);
-      };
-    };
+  // Cleanup function for when a participant leaves/disconnects
+  const cleanupRemoteConnection = useCallback(async (remoteId: string) => {
+    remoteStreams.current.delete(remoteId);
 
-    attachTrackListener();
+    setParticipants((prev) => {
+      if (!prev[remoteId]) return prev;
+      const { [remoteId]: _removed, ...rest } = prev;
+      return rest;
+    });
 
-    const handlePeerReset = () => {
-      cleanup();
-      attachTrackListener();
-    };
-
-    document.addEventListener("peer-reset", handlePeerReset);
-
-    return () => {
-      cleanup();
-      document.removeEventListener("peer-reset", handlePeerReset);
-    };
-  }, [setRemoteStream]);
-
-
-  // Local ICE -> emit to signaling server
-  useEffect(() => {
-    let removeIceListener: (() => void) | undefined;
-    const register = () => {
-      removeIceListener = PeerService.onIceCandidate?.((candidate: RTCIceCandidate) => {
-        if (candidate && remoteSocketId) {
-          socket?.emit("ice:candidate", { to: remoteSocketId, candidate });
-        }
-      }) || (() => {});
-    };
-
-    register();
-    const onReset = () => {
-      try { removeIceListener?.(); } catch (e) {}
-      register();
-    };
-    document.addEventListener("peer-reset", onReset);
-
-    return () => {
-      try { removeIceListener?.(); } catch (e) {}
-      document.removeEventListener("peer-reset", onReset);
-    };
-  }, [remoteSocketId, socket]);
-
-  // Remote ICE candidates
-  const handleIncomingIceCandidate = useCallback(async ({ from, candidate }: any) => {
-    if (!candidate) return;
-    if (!isRemoteDescriptionSet.current) {
-      iceCandidateQueue.current.push(candidate);
-      return;
-    }
-    try {
-      await PeerService.addIceCandidate(candidate);
-    } catch (err) {
-      console.error("Error adding remote ICE candidate:", err);
-    }
-  }, []);
-
-  // Cleanup function for when user leaves/disconnects
-  const cleanupRemoteConnection = useCallback(async () => {
-    isRemoteDescriptionSet.current = false;
-    iceCandidateQueue.current = [];
-    hasInitiatedCall.current = false;
-    isProcessingCall.current = false;
-    
-    setRemoteStream(null);
-    setRemoteSocketId(null);
-    setRemoteUserName("Remote User");
-    
     try {
-      const peer = await PeerService.getPeer();
-      if (peer) {
-        const senders = peer.getSenders();
-        senders.forEach(sender => {
-          try {
-            peer.removeTrack(sender);
-          } catch (e) {}
-        });
-        peer.close();
-      }
+      await PeerManager.remove(remoteId);
     } catch (e) {
       console.error("Error during peer cleanup:", e);
     }
-    
-    PeerService.reset();
-  }, [setRemoteUserName, setRemoteStream, setRemoteSocketId]);
+  }, []);
 
   // Handle user left (explicit leave)
   const handleUserLeft = useCallback(({ id }: any) => {
-    if (id === remoteSocketId) {
-      cleanupRemoteConnection();
-    }
-  }, [remoteSocketId, cleanupRemoteConnection]);
-
-  // Handle user disconnected (unexpected disconnect)
-  const handleUserDisconnected = useCallback(({ id }: any) => {
-    if (id === remoteSocketId) {
-      cleanupRemoteConnection();
-    }
-  }, [remoteSocketId, cleanupRemoteConnection]);
+    cleanupRemoteConnection(id);
+  }, [cleanupRemoteConnection]);
 
   // Handle call ended by remote
   const handleCallEnded = useCallback(({ from }: any) => {
-    if (from === remoteSocketId) {
-      cleanupRemoteConnection();
+    cleanupRemoteConnection(from);
+  }, [cleanupRemoteConnection]);
+
+  // Remote participant started or stopped presenting
+  const handleScreenStarted = useCallback(({ id, streamId }: any) => {
+    upsertParticipant(id, { screenStreamId: streamId });
+  }, [upsertParticipant]);
+
+  const handleScreenStopped = useCallback(({ id }: any) => {
+    setParticipants((prev) => {
+      const participant = prev[id];
+      if (!participant) return prev;
+      if (participant.screenStreamId) {
+        remoteStreams.current.get(id)?.delete(participant.screenStreamId);
+      }
+      return { ...prev, [id]: { ...participant, screenStreamId: null, screenStream: null } };
+    });
+  }, []);
+
+  // Forget every remote participant while keeping local media (before a re-join)
+  const resetConnections = useCallback(async () => {
+    remoteStreams.current.clear();
+    setParticipants({});
+    await PeerManager.closePeers();
+  }, []);
+
+  // Handle room joined. `resumed` means we came back within the server's grace
+  // window, so the others kept our connections and they only need an ICE restart.
+  const handleRoomJoined = useCallback(({ users, resumed }: any) => {
+    const localId = getParticipantId();
+    const others = (users ?? []).filter((u: any) => u.id !== localId);
+
+    if (resumed) {
+      // Drop whoever left while we were away
+      const present = new Set(others.map((u: any) => u.id));
+      PeerManager.ids()
+        .filter((id) => !present.has(id))
+        .forEach((id) => cleanupRemoteConnection(id));
+    } else {
+      // Everyone else already forgot our previous connections
+      resetConnections();
     }
-  }, [remoteSocketId, cleanupRemoteConnection]);
+
+    others.forEach((u: any) => {
+      upsertParticipant(u.id, { userName: u.userName, screenStreamId: u.screenStreamId ?? null });
+      ensurePeer(u.id);
+    });
+  }, [upsertParticipant, ensurePeer, cleanupRemoteConnection, resetConnections]);
+
+  // Room deleted or expired on the server - drop every connection
+  const handleRoomClosed = useCallback(() => {
+    remoteStreams.current.clear();
+    setParticipants({});
+    PeerManager.closeAll();
+  }, []);
+
+  // Close every connection when the hook unmounts
+  useEffect(() => {
+    return () => {
+      PeerManager.closeAll();
+    };
+  }, []);
 
   // Socket event listeners
   useEffect(() => {
     if (!socket) return;
 
-    socket.on("room:joined", handleRoomJoined); 
+    socket.on("room:joined", handleRoomJoined);
     socket.on("user:joined", handleUserJoined);
-    socket.on("incoming:call", handleIncomingCall);
-    socket.on("call:accepted", handleCallAccepted);
+    socket.on("user:reconnected", handleUserReconnected);
+    socket.on("peer:description", handleRemoteDescription);
     socket.on("ice:candidate", handleIncomingIceCandidate);
+    socket.on("peer:message", handleRelayedMessage);
     socket.on("call:ended", handleCallEnded);
-    socket.on("user:disconnected", handleUserDisconnected);
     socket.on("user:left", handleUserLeft);
+    socket.on("room:closed", handleRoomClosed);
+    socket.on("screen:started", handleScreenStarted);
+    socket.on("screen:stopped", handleScreenStopped);
 
     return () => {
-      socket.off("room:joined", handleRoomJoined); 
+      socket.off("room:joined", handleRoomJoined);
       socket.off("user:joined", handleUserJoined);
-      socket.off("incoming:call", handleIncomingCall);
-      socket.off("call:accepted", handleCallAccepted);
+      socket.off("user:reconnected", handleUserReconnected);
+      socket.off("peer:description", handleRemoteDescription);
       socket.off("ice:candidate", handleIncomingIceCandidate);
+      socket.off("peer:message", handleRelayedMessage);
       socket.off("call:ended", handleCallEnded);
-      socket.off("user:disconnected", handleUserDisconnected);
       socket.off("user:left", handleUserLeft);
+      socket.off("room:closed", handleRoomClosed);
+      socket.off("screen:started", handleScreenStarted);
+      socket.off("screen:stopped", handleScreenStopped);
     };
   }, [
     socket,
     handleRoomJoined,
     handleUserJoined,
-    handleIncomingCall,
-    handleCallAccepted,
+    handleUserReconnected,
+    handleRemoteDescription,
     handleCallEnded,
-    handleUserDisconnected,
     handleUserLeft,
     handleIncomingIceCandidate,
+    handleRelayedMessage,
+    handleRoomClosed,
+    handleScreenStarted,
+    handleScreenStopped,
   ]);
 
   return {
-    handleCallUser,
-    remoteSocketId,
-    handleCallAccepted,
-    handleIncomingCall,
+    participants,
     handleUserJoined,
-    processIceCandidateQueue,
+    cleanupRemoteConnection,
+    resetConnections,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from "react";
+import type { CaptionSegment, TranscriptionEngineKind } from "@/lib/captions";
+import { createTranscriptionEngine } from "@/services/transcription";
+
+// Runs the chosen speech-to-text engine on our own microphone while enabled.
+// Changing the engine, the language or the microphone starts a fresh engine.
+export const useTranscription = ({
+  enabled,
+  stream,
+  engine,
+  language,
+  onSegment,
+}: {
+  enabled: boolean;
+  stream: MediaStream | null;
+  engine: TranscriptionEngineKind | null;
+  language: string;
+  onSegment: (segment: CaptionSegment) => void;
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const onSegmentRef = useRef(onSegment);
+  onSegmentRef.current = onSegment;
+
+  // A new track (device switch) needs a new audio graph; a new stream with the same track does not
+  const trackId = stream?.getAudioTracks()[0]?.id ?? null;
+  const streamRef = useRef(stream);
+  streamRef.current = stream;
+
+  useEffect(() => {
+    if (!enabled || !engine || !trackId || !streamRef.current) return;
+
+    setError(null);
+    const transcription = createTranscriptionEngine(engine, {
+      onSegment: (segment) => onSegmentRef.current(segment),
+      onError: setError,
+    });
+
+    transcription.start(streamRef.current, language).catch((err) => {
+      console.error("Error starting transcription:", err);
+      setError("Could not start captions for your microphone");
+    });
+
+    return () => transcription.stop();
+  }, [enabled, engine, language, trackId]);
+
+  return { error };
+};
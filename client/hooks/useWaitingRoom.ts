@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSocket } from "../context/Socket";
+import { getParticipantId, getResumeToken } from "@/lib/participantId";
+import { getHostKey } from "@/lib/hostKey";
+
+export type WaitingStatus = "idle" | "waiting" | "admitted" | "denied";
+
+// The joiner's side of the waiting room, used on the preview page. The host
+// and anyone let in before are admitted straight away.
+export const useWaitingRoom = ({
+  room,
+  userName,
+  onAdmitted,
+}: {
+  room: string;
+  userName: string;
+  onAdmitted: () => void;
+}) => {
+  const socket = useSocket();
+  const [status, setStatus] = useState<WaitingStatus>("idle");
+  const [deniedMessage, setDeniedMessage] = useState<string | null>(null);
+  // "passcode-invalid" and friends come back here as well as the host's answer
+  const [deniedReason, setDeniedReason] = useState<string | null>(null);
+  const statusRef = useRef(status);
+  statusRef.current = status;
+  const onAdmittedRef = useRef(onAdmitted);
+  onAdmittedRef.current = onAdmitted;
+  // Sent again with a knock after a reconnect, in case the server restarted
+  const passcodeRef = useRef<string | undefined>(undefined);
+
+  const sendKnock = useCallback(() => {
+    socket?.emit("lobby:knock", {
+      room,
+      userName,
+      participantId: getParticipantId(),
+      resumeToken: getResumeToken(),
+      hostKey: getHostKey(room),
+      passcode: passcodeRef.current,
+    });
+  }, [socket, room, userName]);
+
+  const knock = useCallback((passcode?: string) => {
+    passcodeRef.current = passcode;
+    setDeniedMessage(null);
+    setDeniedReason(null);
+    setStatus("waiting");
+    sendKnock();
+  }, [sendKnock]);
+
+  const cancel = useCallback(() => {
+    if (statusRef.current === "waiting") socket?.emit("lobby:leave");
+    setStatus("idle");
+  }, [socket]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleAdmitted = () => {
+      if (statusRef.current !== "waiting") return;
+      setStatus("admitted");
+      onAdmittedRef.current();
+    };
+
+    const handleDenied = ({ reason, message }: { reason: string; message: string }) => {
+      if (statusRef.current !== "waiting") return;
+      setStatus("denied");
+      setDeniedReason(reason);
+      setDeniedMessage(message);
+    };
+
+    // The server forgets knocks from a dropped socket; knock again
+    const handleConnect = () => {
+      if (statusRef.current === "waiting") sendKnock();
+    };
+
+    socket.on("lobby:admitted", handleAdmitted);
+    socket.on("lobby:denied", handleDenied);
+    socket.on("connect", handleConnect);
+
+    return () => {
+      socket.off("lobby:admitted", handleAdmitted);
+      socket.off("lobby:denied", handleDenied);
+      socket.off("connect", handleConnect);
+    };
+  }, [socket, sendKnock]);
+
+  // Leaving the preview page while waiting takes us out of the host's list
+  useEffect(() => {
+    return () => {
+      if (statusRef.current === "waiting") socket?.emit("lobby:leave");
+    };
+  }, [socket]);
+
+  return { status, deniedReason, deniedMessage, knock, cancel };
+};
@@ -0,0 +1,9 @@
+// Mirrors server/activities.js
+export type ActivityKind = "recording" | "transcribing" | "screenshot";
+
+// "Alice is recording", "Bob took a screenshot"
+export const ACTIVITY_PHRASES: Record<ActivityKind, { ongoing: string; started: string }> = {
+  recording: { ongoing: "is recording", started: "started recording this meeting" },
+  transcribing: { ongoing: "is transcribing", started: "started transcribing this meeting" },
+  screenshot: { ongoing: "took a screenshot", started: "took a screenshot of this meeting" },
+};
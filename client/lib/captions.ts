@@ -0,0 +1,82 @@
+// Mirrors server/captions.js. Segments are transcribed by the speaker's own
+// browser; an interim segment is replaced by later ones with the same id.
+export interface CaptionSegment {
+  id: string;
+  text: string;
+  final: boolean;
+  // Speaker's clock, milliseconds since the epoch
+  startedAt: number;
+  endedAt: number;
+}
+
+// A segment as received from another participant
+export interface RemoteCaption extends CaptionSegment {
+  speakerId: string;
+  userName: string;
+}
+
+export type TranscriptionEngineKind = "web-speech" | "vosk";
+
+export const ENGINE_LABELS: Record<TranscriptionEngineKind, string> = {
+  "web-speech": "Browser speech recognition",
+  vosk: "Offline (Vosk, runs on this device)",
+};
+
+export interface CaptionLanguage {
+  // BCP 47 tag handed to the Web Speech API
+  code: string;
+  label: string;
+  // Name of the Vosk model archive for the offline engine
+  voskModel: string;
+}
+
+export const CAPTION_LANGUAGES: CaptionLanguage[] = [
+  { code: "en-US", label: "English", voskModel: "vosk-model-small-en-us-0.15" },
+  { code: "de-DE", label: "Deutsch", voskModel: "vosk-model-small-de-0.15" },
+  { code: "es-ES", label: "Español", voskModel: "vosk-model-small-es-0.42" },
+  { code: "fr-FR", label: "Français", voskModel: "vosk-model-small-fr-0.22" },
+  { code: "it-IT", label: "Italiano", voskModel: "vosk-model-small-it-0.22" },
+  { code: "pt-BR", label: "Português", voskModel: "vosk-model-small-pt-0.3" },
+  { code: "ru-RU", label: "Русский", voskModel: "vosk-model-small-ru-0.22" },
+  { code: "hi-IN", label: "हिन्दी", voskModel: "vosk-model-small-hi-0.22" },
+  { code: "ja-JP", label: "日本語", voskModel: "vosk-model-small-ja-0.22" },
+  { code: "zh-CN", label: "中文", voskModel: "vosk-model-small-cn-0.22" },
+];
+
+const DEFAULT_LANGUAGE = "en-US";
+
+const STORAGE_KEYS = {
+  engine: "captionEngine",
+  language: "captionLanguage",
+};
+
+export const findCaptionLanguage = (code: string): CaptionLanguage =>
+  CAPTION_LANGUAGES.find((l) => l.code === code) ??
+  CAPTION_LANGUAGES.find((l) => l.code === DEFAULT_LANGUAGE)!;
+
+// The saved language, else the browser's if we have a model for it
+export const getPreferredCaptionLanguage = (): string => {
+  if (typeof window === "undefined") return DEFAULT_LANGUAGE;
+
+  const saved = localStorage.getItem(STORAGE_KEYS.language);
+  if (saved && CAPTION_LANGUAGES.some((l) => l.code === saved)) return saved;
+
+  const browserLanguage = navigator.language.split("-")[0];
+  return CAPTION_LANGUAGES.find((l) => l.code.split("-")[0] === browserLanguage)?.code ?? DEFAULT_LANGUAGE;
+};
+
+export const setPreferredCaptionLanguage = (code: string) => {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEYS.language, code);
+};
+
+export const getPreferredEngine = (): TranscriptionEngineKind | null => {
+  if (typeof window === "undefined") return null;
+  const saved = localStorage.getItem(STORAGE_KEYS.engine);
+  return saved === "web-speech" || saved === "vosk" ? saved : null;
+};
+
+export const setPreferredEngine = (engine: TranscriptionEngineKind) => {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEYS.engine, engine);
+};
@@ -0,0 +1,33 @@
+// Mirrors server/chat.js
+export const MAX_MESSAGE_LENGTH = 500;
+
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "😮", "😢"];
+
+// What a reply shows of the message it answers
+export interface MessageQuote {
+  id: string;
+  sender: string;
+  text: string;
+  deleted: boolean;
+}
+
+export interface ChatMessage {
+  // Assigned by the server
+  id: string;
+  sender: string;
+  // Participant id of the author; missing on System messages
+  senderId?: string;
+  text: string;
+  timestamp: Date;
+  // Sent by this participant (compared by id, names are not unique)
+  isLocal: boolean;
+  editedAt?: Date;
+  deleted?: boolean;
+  // emoji -> participant ids
+  reactions?: Record<string, string[]>;
+  replyTo?: MessageQuote;
+}
+
+// System messages have no author; going by the sender name would let anyone
+// called "System" pass as one
+export const isSystemMessage = (message: Pick<ChatMessage, "senderId">) => !message.senderId;
@@ -0,0 +1,13 @@
+// The key the server hands to a room's creator. Whoever joins with it is the
+// host and answers the waiting room. Kept per tab, like the participant id.
+const storageKey = (roomId: string) => `hostKey:${roomId}`;
+
+export const saveHostKey = (roomId: string, hostKey: string) => {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(storageKey(roomId), hostKey);
+};
+
+export const getHostKey = (roomId: string): string | null => {
+  if (typeof window === "undefined" || !roomId) return null;
+  return sessionStorage.getItem(storageKey(roomId));
+};
@@ -0,0 +1,64 @@
+// Used when the backend cannot be reached; enough for most non-symmetric NATs
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"] },
+  { urls: "stun:stun.cloudflare.com:3478" },
+];
+
+const FETCH_TIMEOUT_MS = 5000;
+
+type CachedIceServers = {
+  iceServers: RTCIceServer[];
+  // null when the backend's list never expires
+  expiresAt: number | null;
+};
+
+let cached: CachedIceServers | null = null;
+let pending: Promise<RTCIceServer[]> | null = null;
+
+const fetchIceServers = async (): Promise<RTCIceServer[]> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/ice-servers`, {
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`ICE server request failed with ${response.status}`);
+    }
+
+    const { iceServers, ttlSeconds } = await response.json();
+    if (!Array.isArray(iceServers) || iceServers.length === 0) {
+      throw new Error("ICE server response had no servers");
+    }
+
+    cached = {
+      iceServers,
+      expiresAt: typeof ttlSeconds === "number" ? Date.now() + ttlSeconds * 1000 : null,
+    };
+    return iceServers;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// STUN/TURN servers from the backend (shared by every peer until they expire),
+// or the public STUN list if that request fails so calls can still start
+export const getIceServers = async (): Promise<RTCIceServer[]> => {
+  if (cached && (cached.expiresAt === null || cached.expiresAt > Date.now())) {
+    return cached.iceServers;
+  }
+
+  if (!pending) {
+    pending = fetchIceServers().finally(() => {
+      pending = null;
+    });
+  }
+
+  try {
+    return await pending;
+  } catch (err) {
+    console.error("Falling back to public STUN servers:", err);
+    return FALLBACK_ICE_SERVERS;
+  }
+};
@@ -0,0 +1,132 @@
+// A deliberately small Markdown dialect for chat messages: **bold**, *italic*,
+// `inline code`, ```fenced code```, [links](https://…) and bare URLs.
+//
+// The parser only produces plain objects; components/chat-markdown.tsx turns
+// them into React elements, so message text is never treated as HTML.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "code"; language: string; code: string }
+  | { type: "paragraph"; children: MarkdownInline[] };
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+
+// Alternatives, tried left to right at every position:
+//   1 inline code · 2,3 [text](url) · 4 **bold** · 5 __bold__ · 6 *italic* · 7 _italic_ · 8 bare URL
+const INLINE =
+  /`([^`\n]+)`|\[([^\]\n]+)\]\(([^)\s]+)\)|\*\*(?=\S)([^\n]*?\S)\*\*|__(?=\S)([^\n]*?\S)__|\*(?=[^\s*])([^*\n]*?[^\s*])\*|_(?=[^\s_])([^_\n]*?[^\s_])_|((?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,:;!?"')\]])/g;
+
+const SAFE_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+// Returns an absolute http(s)/mailto URL, or null for anything else (javascript:, data:, …)
+export const safeUrl = (raw: string): string | null => {
+  const candidate = raw.startsWith("www.") ? `https://${raw}` : raw;
+  try {
+    const url = new URL(candidate);
+    return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const isWordChar = (char: string | undefined) => !!char && /\w/.test(char);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let plain = "";
+  let position = 0;
+
+  const flush = () => {
+    if (plain) nodes.push({ type: "text", text: plain });
+    plain = "";
+  };
+
+  const pattern = new RegExp(INLINE.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const [whole, code, linkText, linkUrl, strong, strongAlt, em, emAlt, url] = match;
+    const before = text[match.index - 1];
+    const after = text[match.index + whole.length];
+
+    // snake_case_names and URLs glued to words are not formatting
+    if ((emAlt !== undefined || strongAlt !== undefined) && (isWordChar(before) || isWordChar(after))) {
+      pattern.lastIndex = match.index + 1;
+      continue;
+    }
+    if (url !== undefined && isWordChar(before)) continue;
+
+    plain += text.slice(position, match.index);
+    position = match.index + whole.length;
+
+    if (code !== undefined) {
+      flush();
+      nodes.push({ type: "code", text: code });
+    } else if (linkText !== undefined) {
+      const href = safeUrl(linkUrl);
+      if (href) {
+        flush();
+        nodes.push({ type: "link", href, children: parseInline(linkText) });
+      } else {
+        plain += whole;
+      }
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      flush();
+      nodes.push({ type: "strong", children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      flush();
+      nodes.push({ type: "em", children: parseInline(em ?? emAlt) });
+    } else if (url !== undefined) {
+      const href = safeUrl(url);
+      if (href) {
+        flush();
+        nodes.push({ type: "link", href, children: [{ type: "text", text: url }] });
+      } else {
+        plain += whole;
+      }
+    }
+  }
+
+  plain += text.slice(position);
+  flush();
+  return nodes;
+};
+
+// Splits a message into fenced code blocks and paragraphs; an unclosed fence
+// runs to the end of the message
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const content = paragraph.join("\n").replace(/^\n+|\n+$/g, "");
+    if (content) blocks.push({ type: "paragraph", children: parseInline(content) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = lines[i].match(FENCE);
+    if (!fence) {
+      paragraph.push(lines[i]);
+      continue;
+    }
+
+    flushParagraph();
+    const code: string[] = [];
+    i++;
+    while (i < lines.length && !FENCE.test(lines[i])) {
+      code.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: "code", language: fence[1], code: code.join("\n") });
+  }
+
+  flushParagraph();
+  return blocks;
+};
@@ -0,0 +1,48 @@
+export type DeviceKind = "videoinput" | "audioinput" | "audiooutput";
+
+// Selected devices are remembered across meetings, unlike the per-call
+// on/off preferences kept in sessionStorage
+const STORAGE_KEYS: Record<DeviceKind, string> = {
+  videoinput: "videoDeviceId",
+  audioinput: "audioDeviceId",
+  audiooutput: "audioOutputDeviceId",
+};
+
+export const AUDIO_PROCESSING: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export const getPreferredDeviceId = (kind: DeviceKind): string | null => {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(STORAGE_KEYS[kind]);
+};
+
+export const setPreferredDeviceId = (kind: DeviceKind, deviceId: string | null) => {
+  if (typeof window === "undefined") return;
+  if (deviceId) {
+    localStorage.setItem(STORAGE_KEYS[kind], deviceId);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS[kind]);
+  }
+};
+
+// "ideal" falls back to another device if the saved one was unplugged
+export const videoConstraint = (
+  deviceId = getPreferredDeviceId("videoinput")
+): MediaTrackConstraints | boolean =>
+  deviceId ? { deviceId: { ideal: deviceId } } : true;
+
+export const audioConstraint = (
+  deviceId = getPreferredDeviceId("audioinput"),
+  extra: MediaTrackConstraints = {}
+): MediaTrackConstraints | boolean =>
+  deviceId || Object.keys(extra).length > 0
+    ? { ...extra, ...(deviceId ? { deviceId: { ideal: deviceId } } : {}) }
+    : true;
+
+export const supportsOutputSelection = () =>
+  typeof window !== "undefined" &&
+  typeof HTMLMediaElement !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
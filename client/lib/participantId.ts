@@ -0,0 +1,23 @@
+const ID_KEY = "participantId";
+const TOKEN_KEY = "resumeToken";
+
+// Identifies this tab to the server across socket reconnects. The server hands
+// out the id together with a resume token (see session:identity); both are
+// kept in sessionStorage so a reload stays the same participant but another
+// tab does not. Empty until the first knock or join.
+export const getParticipantId = (): string => {
+  if (typeof window === "undefined") return "";
+  return sessionStorage.getItem(ID_KEY) || "";
+};
+
+// Proves to the server that we are getParticipantId(); never shared with peers
+export const getResumeToken = (): string | null => {
+  if (typeof window === "undefined") return null;
+  return sessionStorage.getItem(TOKEN_KEY);
+};
+
+export const saveIdentity = (participantId: string, resumeToken: string) => {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(ID_KEY, participantId);
+  sessionStorage.setItem(TOKEN_KEY, resumeToken);
+};
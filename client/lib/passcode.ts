@@ -0,0 +1,4 @@
+// Meetings can be protected by a numeric passcode, set by the creator. It is
+// only sent with the knock on the preview page; the server remembers that we
+// got it right, so it is never stored here.
+export const PASSCODE_LENGTH = 6;
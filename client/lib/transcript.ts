@@ -0,0 +1,88 @@
+// The meeting transcript: final caption segments of every speaker, ourselves
+// included, on our own clock. Exported as plain text, SRT or WebVTT with
+// times counted from the first entry.
+
+export interface TranscriptEntry {
+  // Speaker id and segment id, unique across speakers
+  id: string;
+  speakerId: string;
+  userName: string;
+  text: string;
+  // Milliseconds since the epoch, local clock
+  startedAt: number;
+  endedAt: number;
+}
+
+export type TranscriptFormat = "txt" | "srt" | "vtt";
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { label: string; mimeType: string }> = {
+  txt: { label: "Text", mimeType: "text/plain" },
+  srt: { label: "SRT", mimeType: "application/x-subrip" },
+  vtt: { label: "WebVTT", mimeType: "text/vtt" },
+};
+
+// Cues shorter than this are hard to read in a player
+const MIN_CUE_MS = 1000;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// 01:02:03,456 for SRT, 01:02:03.456 for WebVTT
+const cueTime = (ms: number, separator: "," | ".") => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+const cues = (entries: TranscriptEntry[]) => {
+  const origin = entries[0]?.startedAt ?? 0;
+  return entries.map((entry) => {
+    const start = entry.startedAt - origin;
+    return { entry, start, end: Math.max(entry.endedAt - origin, start + MIN_CUE_MS) };
+  });
+};
+
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const toText = (entries: TranscriptEntry[]) =>
+  entries
+    .map((entry) => {
+      const time = new Date(entry.startedAt).toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+      return `[${time}] ${entry.userName}: ${entry.text}`;
+    })
+    .join("\n") + "\n";
+
+const toSrt = (entries: TranscriptEntry[]) =>
+  cues(entries)
+    .map(({ entry, start, end }, index) =>
+      `${index + 1}\n${cueTime(start, ",")} --> ${cueTime(end, ",")}\n${entry.userName}: ${entry.text}\n`
+    )
+    .join("\n");
+
+const toVtt = (entries: TranscriptEntry[]) =>
+  ["WEBVTT", "", ...cues(entries).map(({ entry, start, end }) =>
+    `${cueTime(start, ".")} --> ${cueTime(end, ".")}\n<v ${escapeVtt(entry.userName)}>${escapeVtt(entry.text)}\n`
+  )].join("\n");
+
+export const formatTranscript = (entries: TranscriptEntry[], format: TranscriptFormat) =>
+  format === "srt" ? toSrt(entries) : format === "vtt" ? toVtt(entries) : toText(entries);
+
+// Saves the transcript as a file; nothing is uploaded anywhere
+export const downloadTranscript = (entries: TranscriptEntry[], format: TranscriptFormat, room: string) => {
+  const blob = new Blob([formatTranscript(entries, format)], {
+    type: `${TRANSCRIPT_FORMATS[format].mimeType};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `meeting-${room || "transcript"}-${stamp}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,159 @@
+// Turns raw RTCStatsReport snapshots into the numbers people care about.
+// Rates (bitrate, loss) need two snapshots, so each sample is derived from
+// the current report and the one taken on the previous poll.
+
+export type CandidateType = "host" | "srflx" | "prflx" | "relay";
+
+export interface MediaStats {
+  bitrateKbps: number;
+  packetLossPercent: number | null;
+  jitterMs: number | null;
+  frameRate: number | null;
+  width: number | null;
+  height: number | null;
+  codec: string | null;
+}
+
+export interface CallStatsSample {
+  timestamp: number;
+  rttMs: number | null;
+  // Bandwidth estimate for everything we send on this connection
+  availableOutgoingKbps: number | null;
+  localCandidateType: CandidateType | null;
+  remoteCandidateType: CandidateType | null;
+  protocol: string | null;
+  inbound: { audio: MediaStats | null; video: MediaStats | null };
+  outbound: { audio: MediaStats | null; video: MediaStats | null };
+}
+
+type Kind = "audio" | "video";
+type RtpDirection = "inbound-rtp" | "outbound-rtp";
+
+const statsOfType = (report: RTCStatsReport, type: string): any[] => {
+  const result: any[] = [];
+  report.forEach((stat) => {
+    if (stat.type === type) result.push(stat);
+  });
+  return result;
+};
+
+const codecName = (report: RTCStatsReport, codecId?: string): string | null => {
+  const mimeType: string | undefined = codecId ? report.get(codecId)?.mimeType : undefined;
+  return mimeType ? mimeType.split("/")[1] ?? mimeType : null;
+};
+
+// Bitrate from the byte counter difference between two snapshots
+const bitrateKbps = (current: any, previous: any | undefined, bytesField: string) => {
+  if (!previous) return 0;
+  const bytes = (current[bytesField] ?? 0) - (previous[bytesField] ?? 0);
+  const seconds = (current.timestamp - previous.timestamp) / 1000;
+  if (seconds <= 0 || bytes < 0) return 0;
+  return Math.round((bytes * 8) / seconds / 1000);
+};
+
+const summarizeRtp = (
+  report: RTCStatsReport,
+  previous: RTCStatsReport | null,
+  direction: RtpDirection,
+  kind: Kind
+): MediaStats | null => {
+  const streams = statsOfType(report, direction).filter((s) => s.kind === kind);
+  if (streams.length === 0) return null;
+
+  const bytesField = direction === "inbound-rtp" ? "bytesReceived" : "bytesSent";
+  let bitrate = 0;
+  let lost = 0;
+  let total = 0;
+  let hasLossData = false;
+  let jitterMs: number | null = null;
+
+  streams.forEach((stat) => {
+    const prev = previous?.get(stat.id);
+    bitrate += bitrateKbps(stat, prev, bytesField);
+
+    if (direction === "inbound-rtp") {
+      if (prev) {
+        const lostDelta = (stat.packetsLost ?? 0) - (prev.packetsLost ?? 0);
+        const receivedDelta = (stat.packetsReceived ?? 0) - (prev.packetsReceived ?? 0);
+        lost += Math.max(lostDelta, 0);
+        total += Math.max(lostDelta, 0) + Math.max(receivedDelta, 0);
+        hasLossData = true;
+      }
+      if (typeof stat.jitter === "number") {
+        jitterMs = Math.max(jitterMs ?? 0, stat.jitter * 1000);
+      }
+    } else {
+      // What the other side reported back about our packets
+      const remote = stat.remoteId ? report.get(stat.remoteId) : undefined;
+      if (typeof remote?.fractionLost === "number") {
+        lost += remote.fractionLost;
+        total += 1;
+        hasLossData = true;
+      }
+      if (typeof remote?.jitter === "number") {
+        jitterMs = Math.max(jitterMs ?? 0, remote.jitter * 1000);
+      }
+    }
+  });
+
+  // The busiest stream (e.g. the camera rather than an idle simulcast layer) describes the video
+  const main = streams.reduce((best, stat) =>
+    (stat[bytesField] ?? 0) > (best[bytesField] ?? 0) ? stat : best
+  );
+
+  const packetLossPercent = !hasLossData ? null : total > 0 ? (lost / total) * 100 : 0;
+
+  return {
+    bitrateKbps: bitrate,
+    packetLossPercent: packetLossPercent === null ? null : Math.round(packetLossPercent * 10) / 10,
+    jitterMs: jitterMs === null ? null : Math.round(jitterMs),
+    frameRate: typeof main.framesPerSecond === "number" ? Math.round(main.framesPerSecond) : null,
+    width: main.frameWidth ?? null,
+    height: main.frameHeight ?? null,
+    codec: codecName(report, main.codecId),
+  };
+};
+
+// The candidate pair ICE actually sends media over
+const selectedCandidatePair = (report: RTCStatsReport): any | null => {
+  const transport = statsOfType(report, "transport")[0];
+  if (transport?.selectedCandidatePairId) {
+    return report.get(transport.selectedCandidatePairId) ?? null;
+  }
+  // Firefox has no transport stats; it flags the pair instead
+  return (
+    statsOfType(report, "candidate-pair").find(
+      (pair) => pair.selected || (pair.nominated && pair.state === "succeeded")
+    ) ?? null
+  );
+};
+
+export const summarizeStats = (
+  report: RTCStatsReport,
+  previous: RTCStatsReport | null
+): CallStatsSample => {
+  const pair = selectedCandidatePair(report);
+  const localCandidate = pair ? report.get(pair.localCandidateId) : undefined;
+  const remoteCandidate = pair ? report.get(pair.remoteCandidateId) : undefined;
+
+  const rttSeconds: number | undefined = pair?.currentRoundTripTime;
+  const availableOutgoing: number | undefined = pair?.availableOutgoingBitrate;
+
+  return {
+    timestamp: Date.now(),
+    rttMs: typeof rttSeconds === "number" ? Math.round(rttSeconds * 1000) : null,
+    availableOutgoingKbps:
+      typeof availableOutgoing === "number" ? Math.round(availableOutgoing / 1000) : null,
+    localCandidateType: localCandidate?.candidateType ?? null,
+    remoteCandidateType: remoteCandidate?.candidateType ?? null,
+    protocol: localCandidate?.protocol ?? null,
+    inbound: {
+      audio: summarizeRtp(report, previous, "inbound-rtp", "audio"),
+      video: summarizeRtp(report, previous, "inbound-rtp", "video"),
+    },
+    outbound: {
+      audio: summarizeRtp(report, previous, "outbound-rtp", "audio"),
+      video: summarizeRtp(report, previous, "outbound-rtp", "video"),
+    },
+  };
+};
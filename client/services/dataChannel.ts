@@ -0,0 +1,71 @@
+// Messages exchanged directly between peers. Every message travels in the
+// same envelope whether it goes over an RTCDataChannel or, while no channel
+// is open, through the socket relay ("peer:message").
+export interface DataEnvelope<T = unknown> {
+  type: string;
+  id: string;
+  payload: T;
+  // Set when the sender wants to know the message arrived
+  ack?: boolean;
+}
+
+// Reliable messages arrive in order and are retransmitted; unreliable ones may
+// be dropped or reordered, which suits frequent state such as typing indicators.
+export type DataChannelKind = "reliable" | "unreliable";
+
+export interface SendOptions {
+  channel?: DataChannelKind;
+  // Resolve only once the other side confirms receipt
+  ack?: boolean;
+}
+
+export type DataHandler<T = any> = (payload: T, envelope: DataEnvelope<T>, fromId: string) => void;
+
+// Reply sent back for envelopes with `ack` set; its id is the acknowledged message's id
+export const ACK_TYPE = "ack";
+
+export const ACK_TIMEOUT_MS = 5000;
+
+// Both sides create the channels with the same fixed ids ("negotiated"), so
+// neither has to wait for the other's `datachannel` event
+export const DATA_CHANNELS: Record<DataChannelKind, RTCDataChannelInit & { label: string }> = {
+  reliable: { label: "reliable", negotiated: true, id: 0, ordered: true },
+  unreliable: { label: "unreliable", negotiated: true, id: 1, ordered: false, maxRetransmits: 0 },
+};
+
+// File chunks go over their own binary channel so a large transfer does not
+// hold up chat behind it
+export const FILE_CHANNEL: RTCDataChannelInit & { label: string } = {
+  label: "files",
+  negotiated: true,
+  id: 2,
+  ordered: true,
+};
+
+// Backpressure for the file channel: stop queueing above the high mark and
+// carry on once `bufferedamountlow` fires at the low mark
+export const FILE_BUFFER_HIGH = 1024 * 1024;
+export const FILE_BUFFER_LOW = 256 * 1024;
+
+export const createEnvelope = <T>(type: string, payload: T, ack = false): DataEnvelope<T> => ({
+  type,
+  id: crypto.randomUUID(),
+  payload,
+  ...(ack && { ack: true }),
+});
+
+// Returns null for anything that is not an envelope, e.g. from an older client
+export const parseEnvelope = (data: unknown): DataEnvelope | null => {
+  let value = data;
+  if (typeof data === "string") {
+    try {
+      value = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  const envelope = value as DataEnvelope | null;
+  if (!envelope || typeof envelope.type !== "string" || typeof envelope.id !== "string") return null;
+  return envelope;
+};
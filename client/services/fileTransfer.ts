@@ -0,0 +1,504 @@
+import PeerManager from "./peerManager";
+
+// Peer-to-peer file sharing. Control messages ("file:*") travel as data
+// envelopes; the file itself is cut into chunks that go over each peer's
+// binary file channel (see PeerService.sendBinary for the backpressure).
+//
+//   sender                         receiver
+//   file:offer  ----------------->  (starts receiving)
+//               <-----------------  file:request { fromChunk }
+//   chunks      ----------------->
+//               <-----------------  file:done { ok }   (after the SHA-256 check)
+//
+// Pausing stops the chunks; resuming always ends in a new file:request from
+// the receiver, starting at the first chunk it is missing.
+
+export type TransferStatus =
+  | "transferring"
+  | "paused"
+  | "verifying"
+  | "complete"
+  | "failed"
+  | "cancelled";
+
+export interface FileTransfer {
+  id: string;
+  direction: "outgoing" | "incoming";
+  name: string;
+  size: number;
+  mimeType: string;
+  // Who sent it (incoming only)
+  senderName?: string;
+  transferredBytes: number;
+  status: TransferStatus;
+  error?: string;
+  // Object URL of the file: ours right away, theirs once it is verified
+  url?: string;
+  timestamp: Date;
+}
+
+interface FileOffer {
+  transferId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  hash: string;
+  totalChunks: number;
+  senderName: string;
+}
+
+// One recipient of an outgoing file
+interface OutgoingSession {
+  peerId: string;
+  nextChunk: number;
+  status: TransferStatus;
+  // Bumped on every (re)start so a superseded send loop stops
+  generation: number;
+}
+
+interface Outgoing {
+  transfer: FileTransfer;
+  file: File;
+  totalChunks: number;
+  sessions: Map<string, OutgoingSession>;
+}
+
+interface Incoming {
+  transfer: FileTransfer;
+  offer: FileOffer;
+  peerId: string;
+  chunks: ArrayBuffer[];
+}
+
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+const CHUNK_SIZE = 16 * 1024;
+// Every chunk starts with the transfer id (a UUID) and the chunk index
+const ID_BYTES = 36;
+const HEADER_BYTES = ID_BYTES + 4;
+const NOTIFY_INTERVAL_MS = 150;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const sha256 = async (data: ArrayBuffer | Blob) => {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const encodeChunk = (transferId: string, index: number, data: ArrayBuffer) => {
+  const frame = new Uint8Array(HEADER_BYTES + data.byteLength);
+  frame.set(encoder.encode(transferId), 0);
+  new DataView(frame.buffer).setUint32(ID_BYTES, index);
+  frame.set(new Uint8Array(data), HEADER_BYTES);
+  return frame.buffer;
+};
+
+const decodeChunk = (frame: ArrayBuffer) => {
+  if (frame.byteLength < HEADER_BYTES) return null;
+  return {
+    transferId: decoder.decode(new Uint8Array(frame, 0, ID_BYTES)),
+    index: new DataView(frame).getUint32(ID_BYTES),
+    data: frame.slice(HEADER_BYTES),
+  };
+};
+
+// Outgoing progress is the average over every recipient still taking part
+const outgoingState = ({ file, totalChunks, sessions }: Outgoing) => {
+  const active = Array.from(sessions.values()).filter((s) => s.status !== "cancelled");
+  if (active.length === 0) return { status: "cancelled" as const, transferredBytes: 0 };
+
+  const chunks = active.reduce((sum, s) => sum + s.nextChunk, 0) / active.length;
+  const transferredBytes = Math.min(file.size, Math.round(chunks * CHUNK_SIZE));
+  const statuses = active.map((s) => s.status);
+
+  const status: TransferStatus = statuses.includes("transferring")
+    ? "transferring"
+    : statuses.includes("paused")
+    ? "paused"
+    : statuses.every((s) => s === "complete")
+    ? "complete"
+    : statuses.includes("verifying")
+    ? "verifying"
+    : "failed";
+  return { status, transferredBytes };
+};
+
+export class FileTransferService {
+  private outgoing = new Map<string, Outgoing>();
+  private incoming = new Map<string, Incoming>();
+  private unsubscribers: (() => void)[] = [];
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private onChange: (transfers: FileTransfer[]) => void) {
+    this.unsubscribers = [
+      PeerManager.subscribe<FileOffer>("file:offer", (offer, _envelope, fromId) => this.handleOffer(offer, fromId)),
+      PeerManager.subscribe<{ transferId: string; fromChunk: number }>("file:request", (payload, _envelope, fromId) =>
+        this.handleRequest(payload.transferId, payload.fromChunk, fromId)
+      ),
+      PeerManager.subscribe<{ transferId: string }>("file:pause", ({ transferId }, _envelope, fromId) =>
+        this.handleRemotePause(transferId, fromId)
+      ),
+      PeerManager.subscribe<{ transferId: string }>("file:resume", ({ transferId }, _envelope, fromId) =>
+        this.handleRemoteResume(transferId, fromId)
+      ),
+      PeerManager.subscribe<{ transferId: string }>("file:cancel", ({ transferId }, _envelope, fromId) =>
+        this.handleRemoteCancel(transferId, fromId)
+      ),
+      PeerManager.subscribe<{ transferId: string; ok: boolean }>("file:done", ({ transferId, ok }, _envelope, fromId) =>
+        this.handleDone(transferId, ok, fromId)
+      ),
+      PeerManager.subscribeBinary((frame, fromId) => this.handleChunk(frame, fromId)),
+    ];
+  }
+
+  // Offers a file to everyone currently connected
+  async send(file: File, senderName: string) {
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`Files can be at most ${MAX_FILE_SIZE / (1024 * 1024)} MB`);
+    }
+    const peerIds = PeerManager.ids();
+    if (peerIds.length === 0) throw new Error("Nobody to send the file to");
+
+    const transferId = crypto.randomUUID();
+    const totalChunks = Math.max(1, Math.ceil(file.size / CHUNK_SIZE));
+    const outgoing: Outgoing = {
+      transfer: {
+        id: transferId,
+        direction: "outgoing",
+        name: file.name,
+        size: file.size,
+        mimeType: file.type || "application/octet-stream",
+        transferredBytes: 0,
+        status: "verifying",
+        url: URL.createObjectURL(file),
+        timestamp: new Date(),
+      },
+      file,
+      totalChunks,
+      sessions: new Map(
+        peerIds.map((peerId) => [peerId, { peerId, nextChunk: 0, status: "verifying", generation: 0 }])
+      ),
+    };
+    this.outgoing.set(transferId, outgoing);
+    this.notify(true);
+
+    const offer: FileOffer = {
+      transferId,
+      name: outgoing.transfer.name,
+      size: file.size,
+      mimeType: outgoing.transfer.mimeType,
+      hash: await sha256(file),
+      totalChunks,
+      senderName,
+    };
+    outgoing.sessions.forEach((session) => {
+      if (session.status === "cancelled") return;
+      session.status = "transferring";
+      PeerManager.send(session.peerId, "file:offer", offer).catch(() => {
+        session.status = "failed";
+        this.notify(true);
+      });
+    });
+    this.notify(true);
+  }
+
+  pause(transferId: string) {
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing) {
+      outgoing.sessions.forEach((session) => {
+        if (session.status !== "transferring") return;
+        session.status = "paused";
+        session.generation++;
+        this.sendControl(session.peerId, "file:pause", transferId);
+      });
+      this.notify(true);
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (incoming?.transfer.status === "transferring") {
+      incoming.transfer.status = "paused";
+      this.sendControl(incoming.peerId, "file:pause", transferId);
+      this.notify(true);
+    }
+  }
+
+  resume(transferId: string) {
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing) {
+      // The receivers answer with a file:request for what they are missing
+      outgoing.sessions.forEach((session) => {
+        if (session.status === "paused") this.sendControl(session.peerId, "file:resume", transferId);
+      });
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (incoming?.transfer.status === "paused" || incoming?.transfer.status === "failed") {
+      this.requestChunks(incoming);
+    }
+  }
+
+  cancel(transferId: string) {
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing) {
+      outgoing.sessions.forEach((session) => {
+        if (session.status === "complete" || session.status === "cancelled") return;
+        session.status = "cancelled";
+        session.generation++;
+        this.sendControl(session.peerId, "file:cancel", transferId);
+      });
+      outgoing.transfer.status = "cancelled";
+      this.notify(true);
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (incoming && incoming.transfer.status !== "complete") {
+      incoming.transfer.status = "cancelled";
+      incoming.chunks = [];
+      this.sendControl(incoming.peerId, "file:cancel", transferId);
+      this.notify(true);
+    }
+  }
+
+  // Whatever was going on with a participant who left cannot finish
+  handlePeerLeft(peerId: string) {
+    let changed = false;
+    this.outgoing.forEach(({ sessions }) => {
+      const session = sessions.get(peerId);
+      if (session && session.status !== "complete") {
+        session.status = "cancelled";
+        session.generation++;
+        changed = true;
+      }
+    });
+    this.incoming.forEach((incoming) => {
+      if (incoming.peerId !== peerId || incoming.transfer.status === "complete") return;
+      incoming.transfer.status = "cancelled";
+      incoming.transfer.error = `${incoming.offer.senderName} left the meeting`;
+      incoming.chunks = [];
+      changed = true;
+    });
+    if (changed) this.notify(true);
+  }
+
+  dispose() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.notifyTimer) clearTimeout(this.notifyTimer);
+    this.outgoing.forEach(({ transfer, sessions }) => {
+      sessions.forEach((session) => session.generation++);
+      if (transfer.url) URL.revokeObjectURL(transfer.url);
+    });
+    this.incoming.forEach(({ transfer }) => {
+      if (transfer.url) URL.revokeObjectURL(transfer.url);
+    });
+    this.outgoing.clear();
+    this.incoming.clear();
+  }
+
+  // -- Sending --
+
+  private handleRequest(transferId: string, fromChunk: number, peerId: string) {
+    const outgoing = this.outgoing.get(transferId);
+    const session = outgoing?.sessions.get(peerId);
+    if (!outgoing || !session || session.status === "cancelled" || session.status === "complete") return;
+
+    session.nextChunk = Math.max(0, Math.min(Number(fromChunk) || 0, outgoing.totalChunks));
+    session.status = "transferring";
+    this.notify(true);
+    this.pump(outgoing, session);
+  }
+
+  private async pump(outgoing: Outgoing, session: OutgoingSession) {
+    const generation = ++session.generation;
+    const peerService = PeerManager.get(session.peerId);
+    const { file, totalChunks, transfer } = outgoing;
+
+    while (session.nextChunk < totalChunks) {
+      if (session.generation !== generation || session.status !== "transferring") return;
+
+      const start = session.nextChunk * CHUNK_SIZE;
+      const data = await file.slice(start, start + CHUNK_SIZE).arrayBuffer();
+      const sent = await peerService?.sendBinary(encodeChunk(transfer.id, session.nextChunk, data));
+      if (session.generation !== generation) return;
+      if (!sent) {
+        // The connection dropped; the receiver can resume once it is back.
+        // PeerManager falls back to the socket, so it hears about the pause.
+        session.status = "paused";
+        this.sendControl(session.peerId, "file:pause", transfer.id);
+        this.notify(true);
+        return;
+      }
+
+      session.nextChunk++;
+      this.notify();
+    }
+
+    // Everything is queued; the receiver confirms with file:done
+    session.status = "verifying";
+    this.notify(true);
+  }
+
+  private handleDone(transferId: string, ok: boolean, peerId: string) {
+    const session = this.outgoing.get(transferId)?.sessions.get(peerId);
+    if (!session) return;
+    session.status = ok ? "complete" : "failed";
+    this.notify(true);
+  }
+
+  private handleRemotePause(transferId: string, peerId: string) {
+    const session = this.outgoing.get(transferId)?.sessions.get(peerId);
+    if (session?.status === "transferring") {
+      session.status = "paused";
+      session.generation++;
+      this.notify(true);
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (incoming?.peerId === peerId && incoming.transfer.status === "transferring") {
+      incoming.transfer.status = "paused";
+      this.notify(true);
+    }
+  }
+
+  // A receiver still "transferring" may have missed the sender's pause
+  private handleRemoteResume(transferId: string, peerId: string) {
+    const incoming = this.incoming.get(transferId);
+    const status = incoming?.transfer.status;
+    if (incoming?.peerId === peerId && (status === "paused" || status === "transferring")) {
+      this.requestChunks(incoming);
+    }
+  }
+
+  private handleRemoteCancel(transferId: string, peerId: string) {
+    const session = this.outgoing.get(transferId)?.sessions.get(peerId);
+    if (session) {
+      session.status = "cancelled";
+      session.generation++;
+      this.notify(true);
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (incoming?.peerId === peerId && incoming.transfer.status !== "complete") {
+      incoming.transfer.status = "cancelled";
+      incoming.chunks = [];
+      this.notify(true);
+    }
+  }
+
+  // -- Receiving --
+
+  private handleOffer(offer: FileOffer, peerId: string) {
+    if (!offer?.transferId || this.incoming.has(offer.transferId)) return;
+    if (offer.size > MAX_FILE_SIZE) {
+      this.sendControl(peerId, "file:cancel", offer.transferId);
+      return;
+    }
+
+    const incoming: Incoming = {
+      transfer: {
+        id: offer.transferId,
+        direction: "incoming",
+        name: offer.name,
+        size: offer.size,
+        mimeType: offer.mimeType,
+        senderName: offer.senderName,
+        transferredBytes: 0,
+        status: "transferring",
+        timestamp: new Date(),
+      },
+      offer,
+      peerId,
+      chunks: [],
+    };
+    this.incoming.set(offer.transferId, incoming);
+    this.requestChunks(incoming);
+  }
+
+  private requestChunks(incoming: Incoming) {
+    incoming.transfer.status = "transferring";
+    incoming.transfer.error = undefined;
+    PeerManager.send(incoming.peerId, "file:request", {
+      transferId: incoming.transfer.id,
+      fromChunk: incoming.chunks.length,
+    }).catch(() => {
+      incoming.transfer.status = "paused";
+      this.notify(true);
+    });
+    this.notify(true);
+  }
+
+  private handleChunk(frame: ArrayBuffer, peerId: string) {
+    const chunk = decodeChunk(frame);
+    if (!chunk) return;
+
+    const incoming = this.incoming.get(chunk.transferId);
+    if (!incoming || incoming.peerId !== peerId || incoming.transfer.status !== "transferring") return;
+    // Chunks still in flight from before a pause arrive again after the resume
+    if (chunk.index !== incoming.chunks.length) return;
+
+    incoming.chunks.push(chunk.data);
+    incoming.transfer.transferredBytes = Math.min(incoming.offer.size, incoming.chunks.length * CHUNK_SIZE);
+
+    if (incoming.chunks.length === incoming.offer.totalChunks) {
+      this.verify(incoming);
+    } else {
+      this.notify();
+    }
+  }
+
+  private async verify(incoming: Incoming) {
+    const { transfer, offer } = incoming;
+    transfer.status = "verifying";
+    this.notify(true);
+
+    const blob = new Blob(incoming.chunks, { type: offer.mimeType });
+    incoming.chunks = [];
+    const ok = (await sha256(blob)) === offer.hash;
+
+    if (ok) {
+      transfer.status = "complete";
+      transfer.url = URL.createObjectURL(blob);
+    } else {
+      transfer.status = "failed";
+      transfer.error = "The file was damaged on the way";
+      transfer.transferredBytes = 0;
+    }
+    PeerManager.send(incoming.peerId, "file:done", { transferId: transfer.id, ok }).catch(() => {});
+    this.notify(true);
+  }
+
+  private sendControl(peerId: string, type: string, transferId: string) {
+    PeerManager.send(peerId, type, { transferId }).catch(() => {});
+  }
+
+  // Progress changes are batched; status changes go out straight away
+  private notify(immediate = false) {
+    if (this.notifyTimer && !immediate) return;
+    if (this.notifyTimer) clearTimeout(this.notifyTimer);
+
+    const emit = () => {
+      this.notifyTimer = null;
+      this.onChange(this.snapshot());
+    };
+
+    if (immediate) emit();
+    else this.notifyTimer = setTimeout(emit, NOTIFY_INTERVAL_MS);
+  }
+
+  private snapshot(): FileTransfer[] {
+    const outgoing = Array.from(this.outgoing.values()).map((entry) => {
+      const transfer = entry.transfer;
+      if (transfer.status === "cancelled") return { ...transfer };
+      return { ...transfer, ...outgoingState(entry) };
+    });
+    const incoming = Array.from(this.incoming.values()).map(({ transfer }) => ({ ...transfer }));
+    return [...outgoing, ...incoming].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+}
@@ -0,0 +1,352 @@
+// One tile of the recording: a camera or a shared screen
+export interface RecordingSource {
+  id: string;
+  label: string;
+  stream: MediaStream | null;
+  kind: "camera" | "screen";
+  showVideo: boolean;
+  mirrored?: boolean;
+}
+
+interface MeetingRecorderOptions {
+  // Called on every frame so people joining, leaving or sharing show up live
+  getSources: () => RecordingSource[];
+  width?: number;
+  height?: number;
+  frameRate?: number;
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+const GAP = 8;
+const BACKGROUND = "#0a0a0a";
+const PLACEHOLDER = "#1f2937";
+
+export const isRecordingSupported = () =>
+  typeof window !== "undefined" &&
+  typeof MediaRecorder !== "undefined" &&
+  typeof AudioContext !== "undefined" &&
+  typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+const pickMimeType = () =>
+  MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+
+// Gives up after a second so one stalled stream does not block the snapshot
+const waitForFrame = (video: HTMLVideoElement) =>
+  new Promise<void>((resolve) => {
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) return resolve();
+    const timeoutId = setTimeout(resolve, 1000);
+    video.addEventListener(
+      "loadeddata",
+      () => {
+        clearTimeout(timeoutId);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+// Same arrangement as the meeting grid: roughly square, filled row by row
+const gridRects = (count: number, area: Rect): Rect[] => {
+  if (count === 0) return [];
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const width = (area.width - GAP * (columns - 1)) / columns;
+  const height = (area.height - GAP * (rows - 1)) / rows;
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: area.x + (i % columns) * (width + GAP),
+    y: area.y + Math.floor(i / columns) * (height + GAP),
+    width,
+    height,
+  }));
+};
+
+// Records the whole meeting into a single WebM: every camera and screen is
+// drawn onto a canvas in the meeting layout and every audio track is mixed
+// through Web Audio.
+export class MeetingRecorder {
+  private options: Required<MeetingRecorderOptions>;
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  // Audio inputs and hidden <video> elements, keyed by track / stream id
+  private audioInputs = new Map<string, MediaStreamAudioSourceNode>();
+  private videoElements = new Map<string, HTMLVideoElement>();
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private frameTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: MeetingRecorderOptions) {
+    this.options = { width: 1280, height: 720, frameRate: 30, ...options };
+  }
+
+  get isRecording() {
+    return this.recorder?.state === "recording";
+  }
+
+  get mimeType() {
+    return this.recorder?.mimeType || "video/webm";
+  }
+
+  start() {
+    if (this.recorder) return;
+
+    const { width, height, frameRate } = this.options;
+
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.context = this.canvas.getContext("2d");
+
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+
+    this.drawFrame();
+    // setInterval rather than requestAnimationFrame, which stops in background tabs
+    this.frameTimer = setInterval(() => this.drawFrame(), 1000 / frameRate);
+
+    const stream = new MediaStream([
+      ...this.canvas.captureStream(frameRate).getVideoTracks(),
+      ...this.audioDestination.stream.getAudioTracks(),
+    ]);
+
+    const mimeType = pickMimeType();
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.recorder.addEventListener("dataavailable", (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    });
+    this.recorder.start(1000);
+  }
+
+  // A single PNG of the meeting as it looks right now, without recording anything
+  async snapshot(): Promise<Blob> {
+    if (this.recorder) throw new Error("Cannot take a snapshot while recording");
+
+    const { width, height } = this.options;
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.context = this.canvas.getContext("2d");
+
+    try {
+      // Fresh <video> elements have no frame until their data has loaded
+      await Promise.all(
+        this.options.getSources().map(({ stream, showVideo }) =>
+          showVideo && stream?.getVideoTracks().length ? waitForFrame(this.videoFor(stream)) : null
+        )
+      );
+      this.drawFrame();
+
+      return await new Promise<Blob>((resolve, reject) =>
+        this.canvas!.toBlob(
+          (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode snapshot"))),
+          "image/png"
+        )
+      );
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  // Resolves with the finished recording
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.reject(new Error("Recording was not started"));
+
+    return new Promise<Blob>((resolve) => {
+      recorder.addEventListener(
+        "stop",
+        () => {
+          const blob = new Blob(this.chunks, { type: recorder.mimeType || "video/webm" });
+          this.cleanup();
+          resolve(blob);
+        },
+        { once: true }
+      );
+      recorder.stop();
+    });
+  }
+
+  private cleanup() {
+    if (this.frameTimer) clearInterval(this.frameTimer);
+    this.frameTimer = null;
+
+    this.recorder?.stream.getTracks().forEach((track) => track.stop());
+    this.recorder = null;
+    this.chunks = [];
+
+    this.audioInputs.forEach((node) => node.disconnect());
+    this.audioInputs.clear();
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.audioDestination = null;
+
+    this.videoElements.forEach((video) => {
+      video.pause();
+      video.srcObject = null;
+    });
+    this.videoElements.clear();
+
+    this.canvas = null;
+    this.context = null;
+  }
+
+  // Keep the audio mix in step with the tracks currently in the call
+  private syncAudio(sources: RecordingSource[]) {
+    if (!this.audioContext || !this.audioDestination) return;
+
+    const liveTracks = new Map<string, MediaStreamTrack>();
+    sources.forEach(({ stream }) => {
+      stream?.getAudioTracks().forEach((track) => {
+        if (track.readyState === "live") liveTracks.set(track.id, track);
+      });
+    });
+
+    this.audioInputs.forEach((node, trackId) => {
+      if (!liveTracks.has(trackId)) {
+        node.disconnect();
+        this.audioInputs.delete(trackId);
+      }
+    });
+
+    liveTracks.forEach((track, trackId) => {
+      if (this.audioInputs.has(trackId)) return;
+      const node = this.audioContext!.createMediaStreamSource(new MediaStream([track]));
+      node.connect(this.audioDestination!);
+      this.audioInputs.set(trackId, node);
+    });
+  }
+
+  private videoFor(stream: MediaStream): HTMLVideoElement {
+    let video = this.videoElements.get(stream.id);
+    if (!video) {
+      video = document.createElement("video");
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = stream;
+      video.play().catch(() => {});
+      this.videoElements.set(stream.id, video);
+    }
+    return video;
+  }
+
+  private dropUnusedVideos(sources: RecordingSource[]) {
+    const used = new Set(sources.map((source) => source.stream?.id).filter(Boolean));
+    this.videoElements.forEach((video, streamId) => {
+      if (!used.has(streamId)) {
+        video.pause();
+        video.srcObject = null;
+        this.videoElements.delete(streamId);
+      }
+    });
+  }
+
+  // A presented screen takes the main area with cameras in a strip beside it
+  private layout(sources: RecordingSource[]): [RecordingSource, Rect][] {
+    const { width, height } = this.options;
+    const full: Rect = { x: GAP, y: GAP, width: width - GAP * 2, height: height - GAP * 2 };
+
+    const screen = sources.find((source) => source.kind === "screen");
+    if (!screen) {
+      const rects = gridRects(sources.length, full);
+      return sources.map((source, i) => [source, rects[i]]);
+    }
+
+    const others = sources.filter((source) => source !== screen);
+    const stripWidth = others.length > 0 ? Math.round(full.width * 0.22) : 0;
+    const main: Rect = { ...full, width: full.width - (stripWidth ? stripWidth + GAP : 0) };
+    const strip: Rect = { x: main.x + main.width + GAP, y: full.y, width: stripWidth, height: full.height };
+
+    const tileHeight = Math.min(
+      (strip.height - GAP * (others.length - 1)) / Math.max(others.length, 1),
+      stripWidth * 0.75
+    );
+    return [
+      [screen, main],
+      ...others.map((source, i): [RecordingSource, Rect] => [
+        source,
+        { x: strip.x, y: strip.y + i * (tileHeight + GAP), width: strip.width, height: tileHeight },
+      ]),
+    ];
+  }
+
+  private drawFrame() {
+    const ctx = this.context;
+    if (!ctx) return;
+
+    const sources = this.options.getSources();
+    this.syncAudio(sources);
+    this.dropUnusedVideos(sources);
+
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, this.options.width, this.options.height);
+
+    this.layout(sources).forEach(([source, rect]) => this.drawTile(ctx, source, rect));
+  }
+
+  private drawTile(ctx: CanvasRenderingContext2D, source: RecordingSource, rect: Rect) {
+    const hasVideo = source.showVideo && !!source.stream?.getVideoTracks().some((t) => t.readyState === "live");
+    const video = hasVideo && source.stream ? this.videoFor(source.stream) : null;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    ctx.clip();
+
+    if (video && video.videoWidth > 0) {
+      // Letterbox like object-contain in the tiles
+      const scale = Math.min(rect.width / video.videoWidth, rect.height / video.videoHeight);
+      const drawWidth = video.videoWidth * scale;
+      const drawHeight = video.videoHeight * scale;
+      const x = rect.x + (rect.width - drawWidth) / 2;
+      const y = rect.y + (rect.height - drawHeight) / 2;
+
+      if (source.mirrored) {
+        ctx.translate(x + drawWidth, y);
+        ctx.scale(-1, 1);
+        ctx.drawImage(video, 0, 0, drawWidth, drawHeight);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+      } else {
+        ctx.drawImage(video, x, y, drawWidth, drawHeight);
+      }
+    } else {
+      ctx.fillStyle = PLACEHOLDER;
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+
+      const radius = Math.min(rect.width, rect.height) * 0.15;
+      ctx.fillStyle = "rgba(255, 255, 255, 0.15)";
+      ctx.beginPath();
+      ctx.arc(rect.x + rect.width / 2, rect.y + rect.height / 2, radius, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.fillStyle = "#ffffff";
+      ctx.font = `600 ${Math.round(radius)}px sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(source.label.charAt(0).toUpperCase(), rect.x + rect.width / 2, rect.y + rect.height / 2);
+    }
+
+    // Name label
+    const fontSize = Math.max(12, Math.round(rect.height * 0.045));
+    ctx.font = `500 ${fontSize}px sans-serif`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    const label = source.kind === "screen" ? `${source.label} (screen)` : source.label;
+    const labelWidth = ctx.measureText(label).width + fontSize;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+    ctx.fillRect(rect.x + 8, rect.y + rect.height - fontSize * 2 - 8, labelWidth, fontSize * 2);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(label, rect.x + 8 + fontSize / 2, rect.y + rect.height - fontSize - 8);
+
+    ctx.restore();
+  }
+}
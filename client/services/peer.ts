@@ -1,10 +1,73 @@
+import { getIceServers } from "@/lib/iceServers";
+import type { VideoEncoding } from "./videoQuality";
+import {
+  ACK_TIMEOUT_MS,
+  ACK_TYPE,
+  DATA_CHANNELS,
+  FILE_BUFFER_HIGH,
+  FILE_BUFFER_LOW,
+  FILE_CHANNEL,
+  createEnvelope,
+  parseEnvelope,
+  type DataChannelKind,
+  type DataEnvelope,
+  type SendOptions,
+} from "./dataChannel";
+
+// How a PeerService hands its local descriptions and ICE candidates to the
+// other side, and data messages while no data channel is open
+export interface PeerSignaler {
+  sendDescription: (description: RTCSessionDescriptionInit) => void;
+  sendCandidate: (candidate: RTCIceCandidateInit) => void;
+  relayMessage: (envelope: DataEnvelope) => void;
+}
+
+export interface PeerServiceOptions {
+  // Polite peers roll back their own offer on glare, impolite peers ignore the remote one
+  polite: boolean;
+  signaler: PeerSignaler;
+}
+
+// One RTCPeerConnection towards a single remote participant.
+// Instances are created and tracked by PeerManager (services/peerManager.ts).
+//
+// Negotiation follows the "perfect negotiation" pattern: any change to the
+// senders fires `negotiationneeded`, which sends a fresh offer, and both sides
+// run the same code to settle collisions (https://w3c.github.io/webrtc-pc/#perfect-negotiation-example).
+//
+// Each connection also carries a reliable and an unreliable data channel
+// (services/dataChannel.ts). `send` falls back to the socket relay until they open.
 class PeerService {
-  peer!: RTCPeerConnection;  
+  readonly remoteId: string;
+  readonly polite: boolean;
+  private signaler: PeerSignaler;
+  peer!: RTCPeerConnection;
   private senders: RTCRtpSender[] = [];
+  // Second outgoing video, kept apart from the camera sender
+  private screenSender: RTCRtpSender | null = null;
   private listeners = new Map<string, Function[]>();
   private peerPromise: Promise<RTCPeerConnection> | null = null;
+  // Remote ICE candidates that arrived before the remote description was set
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  // Perfect-negotiation state
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private isSettingRemoteAnswerPending = false;
+  // Data messaging
+  private channels: Partial<Record<DataChannelKind, RTCDataChannel>> = {};
+  private messageListeners = new Set<(envelope: DataEnvelope) => void>();
+  private fileChannel: RTCDataChannel | null = null;
+  private binaryListeners = new Set<(data: ArrayBuffer) => void>();
+  private pendingAcks = new Map<
+    string,
+    { resolve: () => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  constructor(remoteId: string, { polite, signaler }: PeerServiceOptions) {
+    this.remoteId = remoteId;
+    this.polite = polite;
+    this.signaler = signaler;
 
-  constructor() {
     // Only create peer in browser
     if (typeof window !== "undefined") {
       this.peerPromise = this.createPeer();
@@ -13,14 +76,22 @@ class PeerService {
 
   private async createPeer(): Promise<RTCPeerConnection> {
     try {
-      const response = await fetch("https://video-chat-app-2-ep0t.onrender.com/ice-servers");
-      const { iceServers } = await response.json();
-      
+      const iceServers = await getIceServers();
+
       this.peer = new RTCPeerConnection({
         iceServers,
         iceCandidatePoolSize: 10,
       });
 
+      this.peer.addEventListener("negotiationneeded", () => {
+        this.negotiate();
+      });
+      this.peer.addEventListener("icecandidate", (ev) => {
+        if (ev.candidate) this.signaler.sendCandidate(ev.candidate.toJSON());
+      });
+
+      this.openDataChannels();
+
       this.peer.addEventListener("iceconnectionstatechange", () => {
         // console.log("ICE connection state:", this.peer.iceConnectionState);
       });
@@ -42,71 +113,218 @@ class PeerService {
     if (!this.peerPromise && typeof window !== "undefined") {
       this.peerPromise = this.createPeer();
     }
-    
+
     if (this.peerPromise) {
       await this.peerPromise;
     }
-    
+
     return this.peer;
   }
 
-  async getOffer() {
+  // Sends an offer for the current set of senders (driven by `negotiationneeded`)
+  private async negotiate() {
+    try {
+      this.makingOffer = true;
+      // Parameterless setLocalDescription creates the right offer (or answer) for the current state
+      await this.peer.setLocalDescription();
+      if (this.peer.localDescription) {
+        this.signaler.sendDescription(this.peer.localDescription.toJSON());
+      }
+    } catch (err) {
+      console.error(`Negotiation with ${this.remoteId} failed:`, err);
+    } finally {
+      this.makingOffer = false;
+    }
+  }
+
+  // Applies an offer or answer from the remote side, resolving offer collisions
+  async handleRemoteDescription(description: RTCSessionDescriptionInit) {
     await this.getPeer(); // Ensure peer exists
-    const offer = await this.peer.createOffer();
-    await this.peer.setLocalDescription(offer);
-    return this.peer.localDescription!;
+
+    const readyForOffer =
+      !this.makingOffer &&
+      (this.peer.signalingState === "stable" || this.isSettingRemoteAnswerPending);
+    const offerCollision = description.type === "offer" && !readyForOffer;
+
+    this.ignoreOffer = !this.polite && offerCollision;
+    if (this.ignoreOffer) return;
+
+    this.isSettingRemoteAnswerPending = description.type === "answer";
+    try {
+      if (offerCollision && this.peer.signalingState === "have-local-offer") {
+        // Polite side drops its own offer in favour of the remote one
+        await this.peer.setLocalDescription({ type: "rollback" });
+      }
+      await this.peer.setRemoteDescription(description);
+    } finally {
+      this.isSettingRemoteAnswerPending = false;
+    }
+    await this.flushPendingCandidates();
+
+    if (description.type === "offer") {
+      await this.peer.setLocalDescription();
+      if (this.peer.localDescription) {
+        this.signaler.sendDescription(this.peer.localDescription.toJSON());
+      }
+    }
   }
 
-  async getAnswer(offer: RTCSessionDescriptionInit) {
+  // Gathers fresh candidates after a network change; the resulting
+  // `negotiationneeded` sends an ICE-restart offer through the usual path
+  async restartIce() {
     await this.getPeer(); // Ensure peer exists
-    await this.peer.setRemoteDescription(new RTCSessionDescription(offer));
-    const answer = await this.peer.createAnswer();
-    await this.peer.setLocalDescription(answer);
-    return this.peer.localDescription!;
+    if (this.peer.connectionState === "closed") return;
+    this.peer.restartIce();
   }
 
-  async setRemoteAnswer(answer: RTCSessionDescriptionInit) {
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    await this.getPeer(); // Ensure peer exists
+
+    if (!this.peer.remoteDescription) {
+      this.pendingCandidates.push(candidate);
+      return;
+    }
+
     try {
-      await this.getPeer(); // Ensure peer exists
-      await this.peer.setRemoteDescription(new RTCSessionDescription(answer));
+      await this.peer.addIceCandidate(new RTCIceCandidate(candidate));
     } catch (err) {
-      // console.warn("setRemoteAnswer failed — state:", this.peer?.signalingState, err);
-      throw err;
+      // Candidates for an offer we ignored on glare are expected to fail
+      if (!this.ignoreOffer) throw err;
     }
   }
 
-  // -- ICE helpers --
-  onIceCandidate(callback: (candidate: RTCIceCandidate) => void) {
-    const setupListener = async () => {
-      await this.getPeer(); // CRITICAL FIX: Wait for peer to exist
-      
-      const handler = (ev: RTCPeerConnectionIceEvent) => {
-        if (ev.candidate) callback(ev.candidate);
-      };
-      
-      this.peer.addEventListener("icecandidate", handler);
-      this.registerListener("icecandidate", handler);
-      
-      return () => {
-        if (this.peer) {
-          this.peer.removeEventListener("icecandidate", handler);
-          this.unregisterListener("icecandidate", handler);
-        }
-      };
-    };
+  private async flushPendingCandidates() {
+    while (this.pendingCandidates.length > 0) {
+      const c = this.pendingCandidates.shift();
+      if (!c) continue;
+      try {
+        await this.peer.addIceCandidate(new RTCIceCandidate(c));
+      } catch (err) {
+        console.error("Error adding queued ICE candidate:", err);
+      }
+    }
+  }
 
-    // Return a cleanup function that works immediately
-    let cleanup: (() => void) | null = null;
-    setupListener().then(fn => cleanup = fn);
-    
+  // -- Data messaging --
+  private openDataChannels() {
+    (Object.keys(DATA_CHANNELS) as DataChannelKind[]).forEach((kind) => {
+      const { label, ...init } = DATA_CHANNELS[kind];
+      const channel = this.peer.createDataChannel(label, init);
+      channel.addEventListener("message", (ev) => this.receive(ev.data));
+      this.channels[kind] = channel;
+    });
+
+    const { label, ...init } = FILE_CHANNEL;
+    this.fileChannel = this.peer.createDataChannel(label, init);
+    this.fileChannel.binaryType = "arraybuffer";
+    this.fileChannel.bufferedAmountLowThreshold = FILE_BUFFER_LOW;
+    this.fileChannel.addEventListener("message", (ev) => {
+      if (ev.data instanceof ArrayBuffer) {
+        this.binaryListeners.forEach((listener) => listener(ev.data));
+      }
+    });
+  }
+
+  isChannelOpen(kind: DataChannelKind = "reliable") {
+    return this.channels[kind]?.readyState === "open";
+  }
+
+  // Sends a typed message to this participant. With `ack` the promise resolves
+  // once they confirm receipt and rejects if no confirmation arrives in time.
+  async send<T>(type: string, payload: T, { channel = "reliable", ack = false }: SendOptions = {}) {
+    await this.getPeer(); // Ensure peer exists
+
+    const envelope = createEnvelope(type, payload, ack);
+    const delivered = ack ? this.waitForAck(envelope.id) : Promise.resolve();
+    this.transmit(envelope, channel);
+    return delivered;
+  }
+
+  private transmit(envelope: DataEnvelope, kind: DataChannelKind) {
+    const channel = this.channels[kind];
+    if (channel?.readyState === "open") {
+      try {
+        channel.send(JSON.stringify(envelope));
+        return;
+      } catch (err) {
+        console.error(`Data channel send to ${this.remoteId} failed, relaying:`, err);
+      }
+    }
+    this.signaler.relayMessage(envelope);
+  }
+
+  private waitForAck(id: string) {
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(id);
+        reject(new Error(`No acknowledgement from ${this.remoteId}`));
+      }, ACK_TIMEOUT_MS);
+      this.pendingAcks.set(id, { resolve, reject, timer });
+    });
+  }
+
+  // Handles a message from a data channel or from the socket relay
+  receive(data: unknown) {
+    const envelope = parseEnvelope(data);
+    if (!envelope) return;
+
+    if (envelope.type === ACK_TYPE) {
+      const pending = this.pendingAcks.get(envelope.id);
+      if (!pending) return;
+      clearTimeout(pending.timer);
+      this.pendingAcks.delete(envelope.id);
+      pending.resolve();
+      return;
+    }
+
+    if (envelope.ack) {
+      this.transmit({ type: ACK_TYPE, id: envelope.id, payload: null }, "reliable");
+    }
+    this.messageListeners.forEach((listener) => listener(envelope));
+  }
+
+  // Queues binary data on the file channel, waiting while its buffer is full.
+  // Resolves false when the channel is not (or no longer) open; there is no relay for files.
+  async sendBinary(data: ArrayBuffer): Promise<boolean> {
+    await this.getPeer(); // Ensure peer exists
+
+    const channel = this.fileChannel;
+    if (channel?.readyState !== "open") return false;
+
+    if (channel.bufferedAmount > FILE_BUFFER_HIGH) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          channel.removeEventListener("bufferedamountlow", done);
+          channel.removeEventListener("close", done);
+          resolve();
+        };
+        channel.addEventListener("bufferedamountlow", done);
+        channel.addEventListener("close", done);
+      });
+      if (channel.readyState !== "open") return false;
+    }
+
+    try {
+      channel.send(data);
+      return true;
+    } catch (err) {
+      console.error(`File channel send to ${this.remoteId} failed:`, err);
+      return false;
+    }
+  }
+
+  onBinary(callback: (data: ArrayBuffer) => void) {
+    this.binaryListeners.add(callback);
     return () => {
-      if (cleanup) cleanup();
+      this.binaryListeners.delete(callback);
     };
   }
 
-  async addIceCandidate(candidate: RTCIceCandidateInit) {
-    await this.getPeer(); // Ensure peer exists
-    await this.peer.addIceCandidate(new RTCIceCandidate(candidate));
+  onMessage(callback: (envelope: DataEnvelope) => void) {
+    this.messageListeners.add(callback);
+    return () => {
+      this.messageListeners.delete(callback);
+    };
   }
 
   // -- Track handling --
@@ -122,43 +340,47 @@ class PeerService {
     };
   }
 
-  // -- Reset connection --
-  async reset() {
-    // console.log("Resetting peer connection");
-    
-    // Close existing peer
-    if (this.peer) {
-      try {
-        // Remove all event listeners
-        const events = ['icecandidate', 'track', 'connectionstatechange', 'iceconnectionstatechange', 'signalingstatechange'];
-        events.forEach(event => {
-          const listeners = this.listeners.get(event) || [];
-          listeners.forEach(fn => {
-            try {
-              this.peer.removeEventListener(event, fn as any);
-            } catch (e) {}
-          });
+  // -- Close connection --
+  async close() {
+    const peer = await this.getPeer().catch(() => null);
+    if (!peer) return;
+
+    try {
+      // Remove all event listeners
+      this.listeners.forEach((listeners, event) => {
+        listeners.forEach(fn => {
+          try {
+            peer.removeEventListener(event, fn as any);
+          } catch (e) {}
         });
-        
-        // Close the connection
-        if (this.peer.connectionState !== 'closed') {
-          this.peer.close();
-        }
-      } catch (e) {
-        console.error("Error closing peer:", e);
+      });
+
+      // Close the connection
+      if (peer.connectionState !== 'closed') {
+        peer.close();
       }
+    } catch (e) {
+      console.error("Error closing peer:", e);
     }
 
     // Clear all state
+    Object.values(this.channels).forEach((channel) => channel?.close());
+    this.channels = {};
+    this.fileChannel?.close();
+    this.fileChannel = null;
+    this.messageListeners.clear();
+    this.binaryListeners.clear();
+    this.pendingAcks.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error(`Connection to ${this.remoteId} closed`));
+    });
+    this.pendingAcks.clear();
     this.senders = [];
+    this.screenSender = null;
+    this.pendingCandidates = [];
+    this.makingOffer = false;
+    this.ignoreOffer = false;
     this.listeners.clear();
-    
-    // Create fresh peer connection
-    this.peerPromise = this.createPeer();
-    await this.peerPromise;
-    
-    // Dispatch reset event
-    document.dispatchEvent(new Event("peer-reset"));
   }
 
   async getSenders() {
@@ -173,7 +395,7 @@ class PeerService {
 
     // Simple, working logic to find senders by track kind
     const findSender = (kind: "audio" | "video") =>
-      existingSenders.find((s) => s.track?.kind === kind);
+      existingSenders.find((s) => s !== this.screenSender && s.track?.kind === kind);
 
     const audioTrack = stream.getAudioTracks()[0] ?? null;
     const videoTrack = stream.getVideoTracks()[0] ?? null;
@@ -207,6 +429,47 @@ class PeerService {
     return this.peer.getSenders?.() || [];
   }
 
+  // Start, swap or stop the screen share track. Adding or removing it renegotiates on its own.
+  async setScreenTrack(track: MediaStreamTrack | null, stream?: MediaStream) {
+    await this.getPeer();
+
+    if (track && stream) {
+      if (this.screenSender) {
+        await this.screenSender.replaceTrack(track);
+      } else {
+        this.screenSender = this.peer.addTrack(track, stream);
+      }
+    } else if (this.screenSender) {
+      try { this.peer.removeTrack(this.screenSender); } catch {}
+      this.screenSender = null;
+    }
+  }
+
+  // Caps the camera's encoder (bitrate, resolution, frame rate) or pauses it.
+  // Returns false while there is nothing to configure yet (no camera sender,
+  // or encodings not known until negotiation finishes).
+  async setVideoEncoding(encoding: VideoEncoding): Promise<boolean> {
+    await this.getPeer();
+
+    const sender = this.peer.getSenders().find(
+      (s) => s !== this.screenSender && s.track?.kind === "video"
+    );
+    if (!sender) return false;
+
+    const params = sender.getParameters();
+    if (!params.encodings || params.encodings.length === 0) return false;
+
+    const keys = Object.keys(encoding) as (keyof VideoEncoding)[];
+    const unchanged = params.encodings.every((current) =>
+      keys.every((key) => current[key] === encoding[key])
+    );
+    if (unchanged) return true;
+
+    params.encodings = params.encodings.map((current) => ({ ...current, ...encoding }));
+    await sender.setParameters(params);
+    return true;
+  }
+
   async removeAllSenders() {
     await this.getPeer();
     const currentSenders = this.peer.getSenders?.() || [];
@@ -214,11 +477,12 @@ class PeerService {
       try { this.peer.removeTrack?.(s); } catch {}
     });
     this.senders = [];
+    this.screenSender = null;
   }
 
-  async onConnectionStateChange(callback: () => void) {
+  async onConnectionStateChange(callback: (state: RTCPeerConnectionState) => void) {
     await this.getPeer(); // Ensure peer exists
-    const handler = () => callback();
+    const handler = () => callback(this.peer.connectionState);
     this.peer.addEventListener("connectionstatechange", handler);
     this.registerListener("connectionstatechange", handler);
     return () => {
@@ -240,6 +504,12 @@ class PeerService {
     };
   }
 
+  async getStats(): Promise<RTCStatsReport | null> {
+    await this.getPeer();
+    if (!this.peer || this.peer.connectionState === "closed") return null;
+    return this.peer.getStats();
+  }
+
   private registerListener(name: string, fn: Function) {
     const arr = this.listeners.get(name) || [];
     arr.push(fn);
@@ -254,4 +524,4 @@ class PeerService {
   }
 }
 
-export default new PeerService();
\ No newline at end of file
+export default PeerService;
@@ -0,0 +1,153 @@
+import PeerService, { type PeerServiceOptions } from "./peer";
+import type { DataHandler, SendOptions } from "./dataChannel";
+
+// Keeps one PeerService (RTCPeerConnection) per remote socket id so a room
+// can hold a full mesh of participants.
+class PeerManager {
+  private peers = new Map<string, PeerService>();
+  private localStream: MediaStream | null = null;
+  private screenStream: MediaStream | null = null;
+  // Data message subscribers by message type, shared by every connection
+  private messageHandlers = new Map<string, Set<DataHandler>>();
+  private binaryHandlers = new Set<(data: ArrayBuffer, fromId: string) => void>();
+
+  get(remoteId: string): PeerService | undefined {
+    return this.peers.get(remoteId);
+  }
+
+  has(remoteId: string): boolean {
+    return this.peers.has(remoteId);
+  }
+
+  create(remoteId: string, options: PeerServiceOptions): PeerService {
+    const existing = this.peers.get(remoteId);
+    if (existing) return existing;
+
+    const peerService = new PeerService(remoteId, options);
+    this.peers.set(remoteId, peerService);
+
+    peerService.onMessage((envelope) => {
+      this.messageHandlers.get(envelope.type)?.forEach((handler) => {
+        try {
+          handler(envelope.payload, envelope, remoteId);
+        } catch (err) {
+          console.error(`Error handling "${envelope.type}" message:`, err);
+        }
+      });
+    });
+
+    peerService.onBinary((data) => {
+      this.binaryHandlers.forEach((handler) => handler(data, remoteId));
+    });
+
+    // New connections start sending whatever we are already capturing
+    this.attachLocalMedia(peerService).catch((err) => {
+      console.error("Failed to add local media to new peer:", err);
+    });
+
+    return peerService;
+  }
+
+  // Adds the camera/mic (optionally a freshly captured stream) and any screen share to a peer
+  async attachLocalMedia(peerService: PeerService, stream: MediaStream | null = this.localStream) {
+    if (stream) {
+      await peerService.addLocalStream(stream);
+    }
+    if (this.screenStream) {
+      const screenTrack = this.screenStream.getVideoTracks()[0] ?? null;
+      await peerService.setScreenTrack(screenTrack, this.screenStream);
+    }
+  }
+
+  // Listens for one message type from every participant, current and future
+  subscribe<T = any>(type: string, handler: DataHandler<T>) {
+    const handlers = this.messageHandlers.get(type) ?? new Set<DataHandler>();
+    handlers.add(handler);
+    this.messageHandlers.set(type, handlers);
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) this.messageHandlers.delete(type);
+    };
+  }
+
+  // Binary data from the file channels of every participant
+  subscribeBinary(handler: (data: ArrayBuffer, fromId: string) => void) {
+    this.binaryHandlers.add(handler);
+    return () => {
+      this.binaryHandlers.delete(handler);
+    };
+  }
+
+  async send<T>(remoteId: string, type: string, payload: T, options?: SendOptions) {
+    const peerService = this.peers.get(remoteId);
+    if (!peerService) throw new Error(`No connection to ${remoteId}`);
+    await peerService.send(type, payload, options);
+  }
+
+  // Sends to everyone; resolves once every send (and ack, if asked for) settled
+  async broadcast<T>(type: string, payload: T, options?: SendOptions) {
+    await Promise.allSettled(this.all().map((peerService) => peerService.send(type, payload, options)));
+  }
+
+  ids(): string[] {
+    return Array.from(this.peers.keys());
+  }
+
+  all(): PeerService[] {
+    return Array.from(this.peers.values());
+  }
+
+  async setLocalStream(stream: MediaStream | null) {
+    this.localStream = stream;
+    if (!stream) return;
+
+    await Promise.all(
+      this.all().map((peerService) =>
+        peerService.addLocalStream(stream).catch((err) => {
+          console.error(`Failed to add local stream to peer ${peerService.remoteId}:`, err);
+        })
+      )
+    );
+  }
+
+  getScreenStream(): MediaStream | null {
+    return this.screenStream;
+  }
+
+  // Sends (or stops sending) a screen share to every peer; each peer renegotiates by itself
+  async setScreenStream(stream: MediaStream | null) {
+    this.screenStream = stream;
+    const screenTrack = stream?.getVideoTracks()[0] ?? null;
+
+    await Promise.all(
+      this.all().map((peerService) =>
+        peerService.setScreenTrack(screenTrack, stream ?? undefined).catch((err) => {
+          console.error(`Failed to update screen share for peer ${peerService.remoteId}:`, err);
+        })
+      )
+    );
+  }
+
+  async remove(remoteId: string) {
+    const peerService = this.peers.get(remoteId);
+    if (!peerService) return;
+
+    this.peers.delete(remoteId);
+    await peerService.close();
+  }
+
+  // Drops every connection but keeps the local media, e.g. before re-joining
+  async closePeers() {
+    const peerServices = this.all();
+    this.peers.clear();
+    await Promise.all(peerServices.map((peerService) => peerService.close()));
+  }
+
+  async closeAll() {
+    this.localStream = null;
+    this.screenStream = null;
+    await this.closePeers();
+  }
+}
+
+export default new PeerManager();
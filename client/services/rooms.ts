@@ -0,0 +1,66 @@
+export type JoinRejectionReason =
+  | "full"
+  | "locked"
+  | "expired"
+  | "not-found"
+  | "not-admitted"
+  | "passcode-required"
+  | "passcode-invalid"
+  | "passcode-locked"
+  | "name-reserved";
+
+export interface RoomInfo {
+  id: string;
+  createdBy: string | null;
+  maxParticipants: number;
+  locked: boolean;
+  createdAt: string;
+  expiresAt: string | null;
+  participantCount: number;
+  hasPasscode: boolean;
+  // Only in the response to createRoom; keep it to be recognised as the host
+  hostKey?: string;
+}
+
+const roomsUrl = (path = "") => `${process.env.NEXT_PUBLIC_BACKEND_URL}/rooms${path}`;
+
+const parseResponse = async (response: Response): Promise<RoomInfo> => {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body?.error || `Request failed with status ${response.status}`);
+  }
+  return body as RoomInfo;
+};
+
+export const createRoom = async (opts: {
+  createdBy: string;
+  maxParticipants?: number;
+  expiresInMinutes?: number;
+  passcode?: string;
+}): Promise<RoomInfo> => {
+  const response = await fetch(roomsUrl(), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(opts),
+  });
+  return parseResponse(response);
+};
+
+export const getRoom = async (roomId: string): Promise<RoomInfo> => {
+  const response = await fetch(roomsUrl(`/${encodeURIComponent(roomId)}`));
+  return parseResponse(response);
+};
+
+// Only the host may lock a room; pass the key from createRoom (see lib/hostKey)
+export const setRoomLocked = async (
+  roomId: string,
+  locked: boolean,
+  hostKey: string
+): Promise<RoomInfo> => {
+  const response = await fetch(roomsUrl(`/${encodeURIComponent(roomId)}/lock`), {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", "X-Host-Key": hostKey },
+    body: JSON.stringify({ locked }),
+  });
+  return parseResponse(response);
+};
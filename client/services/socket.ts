@@ -1,4 +1,5 @@
 import { io, Socket } from "socket.io-client";
+import { saveIdentity } from "@/lib/participantId";
 
 class SocketService {
   private socket: Socket | null = null;
@@ -31,6 +32,12 @@ class SocketService {
       rememberUpgrade: true,
     });
 
+    // Registered before any hook's listeners, so the new id is stored by the
+    // time the room:joined or lobby answer that follows is handled
+    this.socket.on("session:identity", ({ participantId, resumeToken }) => {
+      saveIdentity(participantId, resumeToken);
+    });
+
     this.socket.on("connect", () => {
       // console.log("Socket connected:", this.socket?.id);
       this.connectionAttempts = 0; // Reset on successful connection
@@ -0,0 +1,345 @@
+import type { KaldiRecognizer, Model } from "vosk-browser";
+import {
+  findCaptionLanguage,
+  type CaptionSegment,
+  type TranscriptionEngineKind,
+} from "@/lib/captions";
+
+// Speech-to-text for our own microphone. Every engine reports each utterance
+// as caption segments sharing one id: interim text while it is spoken, then
+// the final text, so the captions UI does not care which engine runs.
+//
+//   web-speech  the browser's SpeechRecognition (Chrome, Edge, Safari); may
+//               send audio to the browser vendor's servers
+//   vosk        Kaldi compiled to WASM, fed by an AudioWorklet tapping the
+//               call's microphone stream; nothing leaves the device
+
+export interface TranscriptionHandlers {
+  onSegment: (segment: CaptionSegment) => void;
+  onError: (message: string) => void;
+}
+
+export interface TranscriptionEngine {
+  readonly kind: TranscriptionEngineKind;
+  // `language` is a code from CAPTION_LANGUAGES
+  start(stream: MediaStream, language: string): Promise<void>;
+  stop(): void;
+}
+
+// Hands out segment ids and remembers when each utterance began. Engines key
+// utterances however they like (Web Speech uses result indexes).
+class UtteranceTracker {
+  private prefix = Date.now().toString(36);
+  private count = 0;
+  private open = new Map<number, { id: string; startedAt: number }>();
+
+  segment(key: number, text: string, final: boolean): CaptionSegment | null {
+    const trimmed = text.trim();
+    let utterance = this.open.get(key);
+
+    if (!trimmed) {
+      if (final) this.open.delete(key);
+      return null;
+    }
+
+    const now = Date.now();
+    if (!utterance) {
+      utterance = { id: `${this.prefix}-${this.count++}`, startedAt: now };
+      this.open.set(key, utterance);
+    }
+    if (final) this.open.delete(key);
+
+    return { id: utterance.id, text: trimmed, final, startedAt: utterance.startedAt, endedAt: now };
+  }
+
+  // Keys restart from zero after this
+  reset() {
+    this.open.clear();
+  }
+}
+
+// -- Web Speech --
+
+// TypeScript declarations for Web Speech API
+interface SpeechRecognitionEvent extends Event {
+  results: SpeechRecognitionResultList;
+  resultIndex: number;
+}
+
+interface SpeechRecognitionResultList {
+  length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionResult {
+  length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+  isFinal: boolean;
+}
+
+interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onend: (() => void) | null;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
+  }
+}
+
+// Web Speech always listens to the default microphone; the call's stream is
+// not used
+class WebSpeechEngine implements TranscriptionEngine {
+  readonly kind = "web-speech";
+  private recognition: SpeechRecognition | null = null;
+  private tracker = new UtteranceTracker();
+
+  static isSupported = () =>
+    typeof window !== "undefined" &&
+    ("SpeechRecognition" in window || "webkitSpeechRecognition" in window);
+
+  constructor(private handlers: TranscriptionHandlers) {}
+
+  async start(_stream: MediaStream, language: string) {
+    this.stop();
+
+    const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
+    const recognition = new SpeechRecognitionAPI();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = language;
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const segment = this.tracker.segment(i, result[0].transcript, result.isFinal);
+        if (segment) this.handlers.onSegment(segment);
+      }
+    };
+
+    recognition.onerror = (event: any) => {
+      // "no-speech" and "aborted" are expected states, not errors
+      if (event.error === "no-speech" || event.error === "aborted") return;
+
+      if (event.error === "not-allowed" || event.error === "service-not-allowed") {
+        // Restarting would only fail again
+        recognition.onend = null;
+        this.handlers.onError("Speech recognition is blocked in this browser");
+      } else {
+        console.error("Speech recognition error:", event.error);
+      }
+    };
+
+    // Recognition stops by itself after silence; keep it going until stopped
+    recognition.onend = () => {
+      this.tracker.reset();
+      try {
+        recognition.start();
+      } catch (e) {
+        console.error("Recognition restart failed:", e);
+      }
+    };
+
+    this.recognition = recognition;
+    recognition.start();
+  }
+
+  stop() {
+    const recognition = this.recognition;
+    if (!recognition) return;
+
+    this.recognition = null;
+    recognition.onresult = null;
+    recognition.onend = null;
+    try {
+      recognition.abort();
+    } catch (e) {
+      console.error("Error stopping recognition:", e);
+    }
+    this.tracker.reset();
+  }
+}
+
+// -- Vosk (WASM) --
+
+// Base URL of the Vosk model archives, one <voskModel>.tar.gz per language (see
+// README). The models are not shipped, so without it Vosk is not offered.
+const VOSK_MODELS_URL = process.env.NEXT_PUBLIC_VOSK_MODELS_URL?.replace(/\/+$/, "") || "";
+
+// Samples per message from the worklet, about 85 ms at 48 kHz
+const WORKLET_CHUNK = 4096;
+
+const CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(${WORKLET_CHUNK});
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.buffer[this.length++] = channel[i];
+      if (this.length === this.buffer.length) {
+        this.port.postMessage(this.buffer);
+        this.buffer = new Float32Array(${WORKLET_CHUNK});
+        this.length = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor("pcm-capture", PcmCaptureProcessor);
+`;
+
+let captureWorkletUrl: string | null = null;
+
+// Models are tens of megabytes, so each one is loaded once per page
+const models = new Map<string, Promise<Model>>();
+
+const loadModel = (url: string) => {
+  let model = models.get(url);
+  if (!model) {
+    model = import("vosk-browser").then(({ createModel }) => createModel(url));
+    // A failed download may work next time
+    model.catch(() => models.delete(url));
+    models.set(url, model);
+  }
+  return model;
+};
+
+class VoskEngine implements TranscriptionEngine {
+  readonly kind = "vosk";
+  private context: AudioContext | null = null;
+  private recognizer: KaldiRecognizer | null = null;
+  private tracker = new UtteranceTracker();
+  // Bumped by stop() so a start() still loading the model gives up
+  private generation = 0;
+
+  static isSupported = () =>
+    VOSK_MODELS_URL !== "" &&
+    typeof window !== "undefined" &&
+    typeof WebAssembly !== "undefined" &&
+    typeof Worker !== "undefined" &&
+    typeof AudioWorkletNode !== "undefined";
+
+  constructor(private handlers: TranscriptionHandlers) {}
+
+  async start(stream: MediaStream, language: string) {
+    this.stop();
+    const generation = this.generation;
+
+    const tracks = stream.getAudioTracks();
+    if (tracks.length === 0) return;
+
+    let model: Model;
+    try {
+      model = await loadModel(`${VOSK_MODELS_URL}/${findCaptionLanguage(language).voskModel}.tar.gz`);
+    } catch (err) {
+      console.error("Error loading speech model:", err);
+      if (generation === this.generation) {
+        this.handlers.onError("Could not load the offline speech model");
+      }
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    const context = new AudioContext();
+    this.context = context;
+    // Created long after the user's click, the context may start suspended
+    context.resume().catch((err) => console.error("Error resuming audio context:", err));
+
+    try {
+      if (!captureWorkletUrl) {
+        captureWorkletUrl = URL.createObjectURL(
+          new Blob([CAPTURE_WORKLET], { type: "application/javascript" })
+        );
+      }
+      await context.audioWorklet.addModule(captureWorkletUrl);
+    } catch (err) {
+      console.error("Error loading audio worklet:", err);
+      if (generation === this.generation) {
+        this.handlers.onError("Could not capture the microphone for captions");
+        this.stop();
+      }
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    const recognizer = new model.KaldiRecognizer(context.sampleRate);
+    recognizer.on("partialresult", (message) => {
+      if (message.event === "partialresult") this.emit(message.result.partial, false);
+    });
+    recognizer.on("result", (message) => {
+      if (message.event === "result") this.emit(message.result.text, true);
+    });
+    recognizer.on("error", (message) => {
+      if (message.event === "error") console.error("Speech model error:", message.error);
+    });
+    this.recognizer = recognizer;
+
+    // The worklet only forwards samples; it is not connected to the speakers
+    const source = context.createMediaStreamSource(new MediaStream(tracks));
+    const capture = new AudioWorkletNode(context, "pcm-capture");
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      recognizer.acceptWaveformFloat(event.data, context.sampleRate);
+    };
+    source.connect(capture);
+  }
+
+  stop() {
+    this.generation++;
+
+    if (this.recognizer) {
+      this.recognizer.remove();
+      this.recognizer = null;
+    }
+    if (this.context) {
+      this.context.close().catch((err) => console.error("Error closing audio context:", err));
+      this.context = null;
+    }
+    this.tracker.reset();
+  }
+
+  // Vosk works on one utterance at a time
+  private emit(text: string, final: boolean) {
+    const segment = this.tracker.segment(0, text, final);
+    if (segment) this.handlers.onSegment(segment);
+  }
+}
+
+const ENGINES = {
+  "web-speech": WebSpeechEngine,
+  vosk: VoskEngine,
+} satisfies Record<TranscriptionEngineKind, unknown>;
+
+export const isEngineSupported = (kind: TranscriptionEngineKind) => ENGINES[kind].isSupported();
+
+// Engines this browser can run, preferred first
+export const supportedEngines = (): TranscriptionEngineKind[] =>
+  (Object.keys(ENGINES) as TranscriptionEngineKind[]).filter(isEngineSupported);
+
+export const createTranscriptionEngine = (
+  kind: TranscriptionEngineKind,
+  handlers: TranscriptionHandlers
+): TranscriptionEngine => new ENGINES[kind](handlers);
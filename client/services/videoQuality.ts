@@ -0,0 +1,76 @@
+import type { CallStatsSample } from "./callStats";
+
+// Outgoing camera settings, from best to worst. The last level stops sending
+// video entirely (the encoding is deactivated, no renegotiation needed).
+export const QUALITY_LEVELS = ["high", "medium", "low", "audio-only"] as const;
+export type QualityLevel = (typeof QUALITY_LEVELS)[number];
+
+export type VideoEncoding = Pick<
+  RTCRtpEncodingParameters,
+  "active" | "maxBitrate" | "scaleResolutionDownBy" | "maxFramerate"
+>;
+
+export const VIDEO_ENCODINGS: Record<QualityLevel, VideoEncoding> = {
+  high: { active: true, maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  medium: { active: true, maxBitrate: 600_000, scaleResolutionDownBy: 1.5, maxFramerate: 24 },
+  low: { active: true, maxBitrate: 250_000, scaleResolutionDownBy: 2, maxFramerate: 15 },
+  "audio-only": { active: false },
+};
+
+// Worst value at which each level is still acceptable
+const THRESHOLDS: Record<Exclude<QualityLevel, "audio-only">, {
+  lossPercent: number;
+  rttMs: number;
+  minAvailableKbps: number;
+}> = {
+  high: { lossPercent: 3, rttMs: 250, minAvailableKbps: 900 },
+  medium: { lossPercent: 8, rttMs: 500, minAvailableKbps: 350 },
+  low: { lossPercent: 20, rttMs: 1000, minAvailableKbps: 100 },
+};
+
+const worstLoss = (...values: (number | null | undefined)[]) =>
+  values.reduce<number>((worst, value) => Math.max(worst, value ?? 0), 0);
+
+// The level the link can sustain right now, judged from what we send
+export const targetLevel = (sample: CallStatsSample): QualityLevel => {
+  const loss = worstLoss(
+    sample.outbound.video?.packetLossPercent,
+    sample.outbound.audio?.packetLossPercent
+  );
+  const rtt = sample.rttMs ?? 0;
+  const available = sample.availableOutgoingKbps;
+
+  const fits = (level: Exclude<QualityLevel, "audio-only">) => {
+    const limits = THRESHOLDS[level];
+    return (
+      loss <= limits.lossPercent &&
+      rtt <= limits.rttMs &&
+      (available === null || available >= limits.minAvailableKbps)
+    );
+  };
+
+  if (fits("high")) return "high";
+  if (fits("medium")) return "medium";
+  if (fits("low")) return "low";
+  return "audio-only";
+};
+
+// Signal strength (0-4 bars) for a tile, judged from both directions
+export const signalStrength = (sample: CallStatsSample | undefined): number => {
+  if (!sample || sample.rttMs === null) return 0;
+
+  const loss = worstLoss(
+    sample.inbound.video?.packetLossPercent,
+    sample.inbound.audio?.packetLossPercent,
+    sample.outbound.video?.packetLossPercent,
+    sample.outbound.audio?.packetLossPercent
+  );
+  const rtt = sample.rttMs;
+
+  if (loss <= THRESHOLDS.high.lossPercent && rtt <= THRESHOLDS.high.rttMs) return 4;
+  if (loss <= THRESHOLDS.medium.lossPercent && rtt <= THRESHOLDS.medium.rttMs) return 3;
+  if (loss <= THRESHOLDS.low.lossPercent && rtt <= THRESHOLDS.low.rttMs) return 2;
+  return 1;
+};
+
+export const levelIndex = (level: QualityLevel) => QUALITY_LEVELS.indexOf(level);
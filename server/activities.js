@@ -0,0 +1,21 @@
+// Things a participant can do that capture the call, announced to everyone
+export const ACTIVITY_KINDS = ["recording", "transcribing", "screenshot"];
+
+// Announced when they happen but not remembered as ongoing
+const MOMENTARY_ACTIVITIES = new Set(["screenshot"]);
+
+export const isActivityKind = (kind) => ACTIVITY_KINDS.includes(kind);
+
+export const isMomentaryActivity = (kind) => MOMENTARY_ACTIVITIES.has(kind);
+
+const ACTIVITY_NOUNS = {
+    recording: "recording",
+    transcribing: "transcription",
+    screenshot: "screenshot",
+};
+
+// Text of the System chat message logged for a consent decision
+export const consentMessage = ({ userName, ownerName, kind, accepted }) =>
+    accepted
+        ? `${userName} agreed to ${ownerName}'s ${ACTIVITY_NOUNS[kind]}`
+        : `${userName} did not agree to ${ownerName}'s ${ACTIVITY_NOUNS[kind]} and left the meeting`;
@@ -0,0 +1,27 @@
+// Captions are transcribed by each speaker's own browser and relayed to the
+// room as segments. An interim segment is replaced by later ones with the
+// same id until the final version arrives.
+export const MAX_CAPTION_LENGTH = 1000;
+
+const SEGMENT_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// A well-formed segment with trimmed text, or null if it should be dropped.
+// Timestamps are the speaker's clock in milliseconds since the epoch.
+export const cleanCaptionSegment = (segment) => {
+    if (!segment || typeof segment !== "object") return null;
+
+    const { id, text, final, startedAt, endedAt } = segment;
+    if (typeof id !== "string" || !SEGMENT_ID_PATTERN.test(id) || typeof text !== "string") return null;
+    if (!Number.isFinite(startedAt) || !Number.isFinite(endedAt) || endedAt < startedAt) return null;
+
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    return {
+        id,
+        text: trimmed.slice(0, MAX_CAPTION_LENGTH),
+        final: Boolean(final),
+        startedAt,
+        endedAt,
+    };
+};
@@ -0,0 +1,60 @@
+import { randomUUID } from "crypto";
+
+export const MAX_MESSAGE_LENGTH = 500;
+
+// Reactions are limited to a fixed set so nobody can stuff arbitrary text into them
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "😮", "😢"];
+
+// Receipts are batched by clients; anything beyond this in one event is dropped
+export const MAX_RECEIPT_IDS = 100;
+
+const QUOTE_LENGTH = 140;
+
+// Name shown on system messages. It is reserved: nobody may join under it.
+export const SYSTEM_SENDER = "System";
+
+export const isReservedName = (userName) =>
+    typeof userName === "string" && userName.trim().toLowerCase() === SYSTEM_SENDER.toLowerCase();
+
+// System messages are the ones without an author, whatever their sender name
+export const isSystemMessage = (message) => !message.senderId;
+
+// Ids are generated here, never by clients, so two messages can not collide.
+// System messages have no senderId.
+export const createMessage = ({ sender, senderId = null, text }) => ({
+    id: randomUUID(),
+    sender,
+    ...(senderId && { senderId }),
+    text,
+    timestamp: new Date(),
+});
+
+// Trimmed message text, or null if there is nothing (valid) to send
+export const cleanMessageText = (text) => {
+    if (typeof text !== "string") return null;
+    const trimmed = text.trim();
+    return trimmed ? trimmed.slice(0, MAX_MESSAGE_LENGTH) : null;
+};
+
+// Only the author may edit or delete a message, and deleted messages stay deleted
+export const canModify = (message, participantId) =>
+    Boolean(message && !message.deleted && participantId && message.senderId === participantId);
+
+// What a reply shows of the message it answers
+export const quoteOf = (message) => ({
+    id: message.id,
+    sender: message.sender,
+    text: message.deleted ? "" : message.text.slice(0, QUOTE_LENGTH),
+    deleted: Boolean(message.deleted),
+});
+
+// Adds or removes one participant's reaction; emoji -> participant ids
+export const toggleReaction = (reactions = {}, emoji, participantId) => {
+    const current = reactions[emoji] || [];
+    const next = current.includes(participantId)
+        ? current.filter((id) => id !== participantId)
+        : [...current, participantId];
+
+    const { [emoji]: _removed, ...rest } = reactions;
+    return next.length > 0 ? { ...rest, [emoji]: next } : rest;
+};
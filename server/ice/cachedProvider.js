@@ -0,0 +1,45 @@
+// Reuses a provider's credentials until shortly before they expire, so every
+// peer connection does not cost a round trip to Twilio or a fresh HMAC
+export class CachedIceProvider {
+    constructor(provider, { refreshMarginSeconds = 5 * 60 } = {}) {
+        this.provider = provider;
+        this.refreshMarginSeconds = refreshMarginSeconds;
+        this.cached = null;
+        this.pending = null;
+    }
+
+    async getIceServers() {
+        if (this.cached && (this.cached.expiresAt === null || this.cached.expiresAt > Date.now())) {
+            return {
+                iceServers: this.cached.iceServers,
+                ttlSeconds: this.remainingSeconds(this.cached.expiresAt),
+            };
+        }
+
+        // Concurrent requests share one fetch
+        if (!this.pending) {
+            this.pending = this.refresh().finally(() => {
+                this.pending = null;
+            });
+        }
+        return this.pending;
+    }
+
+    async refresh() {
+        const { iceServers, ttlSeconds } = await this.provider.getIceServers();
+        const lifetimeSeconds = ttlSeconds === null
+            ? null
+            : Math.max(ttlSeconds - this.refreshMarginSeconds, 0);
+
+        this.cached = {
+            iceServers,
+            expiresAt: lifetimeSeconds === null ? null : Date.now() + lifetimeSeconds * 1000,
+        };
+        return { iceServers, ttlSeconds: lifetimeSeconds };
+    }
+
+    remainingSeconds(expiresAt) {
+        if (expiresAt === null) return null;
+        return Math.max(Math.floor((expiresAt - Date.now()) / 1000), 0);
+    }
+}
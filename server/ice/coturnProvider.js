@@ -0,0 +1,29 @@
+import crypto from "crypto";
+
+// Time-limited credentials for coturn's TURN REST API (use-auth-secret):
+// the username carries the expiry and the password is its HMAC with the shared secret.
+export class CoturnIceProvider {
+    constructor({ secret, turnUrls, stunUrls = [], ttlSeconds = 60 * 60, user = "webrtc" }) {
+        if (!secret || turnUrls.length === 0) {
+            throw new Error("TURN_SECRET and TURN_URLS are required for the coturn ICE provider");
+        }
+        this.secret = secret;
+        this.turnUrls = turnUrls;
+        this.stunUrls = stunUrls;
+        this.ttlSeconds = ttlSeconds;
+        this.user = user;
+    }
+
+    async getIceServers() {
+        const expiresAt = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+        const username = `${expiresAt}:${this.user}`;
+        const credential = crypto.createHmac("sha1", this.secret).update(username).digest("base64");
+
+        const iceServers = [{ urls: this.turnUrls, username, credential }];
+        if (this.stunUrls.length > 0) {
+            iceServers.unshift({ urls: this.stunUrls });
+        }
+
+        return { iceServers, ttlSeconds: this.ttlSeconds };
+    }
+}
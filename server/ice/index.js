@@ -0,0 +1,35 @@
+import { StaticIceProvider, parseUrlList } from "./staticProvider.js";
+import { TwilioIceProvider } from "./twilioProvider.js";
+import { CoturnIceProvider } from "./coturnProvider.js";
+import { CachedIceProvider } from "./cachedProvider.js";
+
+// Picks where /ice-servers gets its config from ICE_PROVIDER ("twilio",
+// "coturn" or "static"). Without it, Twilio is used when its credentials are
+// set, then coturn when TURN_SECRET is set, otherwise the static list.
+export const createIceProvider = (env = process.env) => {
+    const kind = env.ICE_PROVIDER
+        || (env.TWILIO_ACCOUNT_SID ? "twilio" : env.TURN_SECRET ? "coturn" : "static");
+
+    switch (kind) {
+        case "twilio":
+            return new CachedIceProvider(new TwilioIceProvider({
+                accountSid: env.TWILIO_ACCOUNT_SID,
+                authToken: env.TWILIO_AUTH_TOKEN,
+                ttlSeconds: Number(env.TWILIO_TOKEN_TTL_SECONDS) || undefined,
+            }));
+        case "coturn":
+            return new CachedIceProvider(new CoturnIceProvider({
+                secret: env.TURN_SECRET,
+                turnUrls: parseUrlList(env.TURN_URLS),
+                stunUrls: parseUrlList(env.STUN_URLS),
+                ttlSeconds: Number(env.TURN_TTL_SECONDS) || undefined,
+                user: env.TURN_USER || undefined,
+            }));
+        case "static":
+            return StaticIceProvider.fromEnv(env);
+        default:
+            throw new Error(`Unknown ICE_PROVIDER "${kind}"`);
+    }
+};
+
+export { StaticIceProvider, TwilioIceProvider, CoturnIceProvider, CachedIceProvider };
@@ -0,0 +1,52 @@
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"];
+
+export const parseUrlList = (value) =>
+    String(value || "")
+        .split(",")
+        .map((url) => url.trim())
+        .filter(Boolean);
+
+// Serves a fixed list, either as JSON in ICE_SERVERS or assembled from
+// STUN_URLS / TURN_URLS / TURN_USERNAME / TURN_CREDENTIAL.
+//
+// Every ICE provider exposes the same async interface:
+//   getIceServers() -> { iceServers, ttlSeconds }
+// where ttlSeconds is null for credentials that never expire.
+export class StaticIceProvider {
+    constructor({ iceServers }) {
+        this.iceServers = iceServers;
+    }
+
+    static fromEnv(env = process.env) {
+        if (env.ICE_SERVERS) {
+            let iceServers;
+            try {
+                iceServers = JSON.parse(env.ICE_SERVERS);
+            } catch (err) {
+                throw new Error(`ICE_SERVERS is not valid JSON: ${err.message}`);
+            }
+            if (!Array.isArray(iceServers)) {
+                throw new Error("ICE_SERVERS must be a JSON array of RTCIceServer objects");
+            }
+            return new StaticIceProvider({ iceServers });
+        }
+
+        const stunUrls = parseUrlList(env.STUN_URLS);
+        const iceServers = [{ urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS }];
+
+        const turnUrls = parseUrlList(env.TURN_URLS);
+        if (turnUrls.length > 0) {
+            iceServers.push({
+                urls: turnUrls,
+                username: env.TURN_USERNAME,
+                credential: env.TURN_CREDENTIAL,
+            });
+        }
+
+        return new StaticIceProvider({ iceServers });
+    }
+
+    async getIceServers() {
+        return { iceServers: this.iceServers, ttlSeconds: null };
+    }
+}
@@ -0,0 +1,17 @@
+import twilio from "twilio";
+
+// Short-lived STUN/TURN credentials from Twilio's Network Traversal Service
+export class TwilioIceProvider {
+    constructor({ accountSid, authToken, ttlSeconds = 24 * 60 * 60 }) {
+        if (!accountSid || !authToken) {
+            throw new Error("TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN are required for the twilio ICE provider");
+        }
+        this.client = twilio(accountSid, authToken);
+        this.ttlSeconds = ttlSeconds;
+    }
+
+    async getIceServers() {
+        const token = await this.client.tokens.create({ ttl: this.ttlSeconds });
+        return { iceServers: token.iceServers, ttlSeconds: Number(token.ttl) || this.ttlSeconds };
+    }
+}
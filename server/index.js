@@ -4,19 +4,39 @@ import express from "express";
 import { createServer } from "http";
 import bodyParser from "body-parser";
 import { Server } from "socket.io";
-import twilio from "twilio";
 import cors from "cors";
+import { RoomRegistry, RoomError, JOIN_REJECTION, rejectionMessage } from "./rooms.js";
+import {
+  ParticipantRegistry,
+  generateParticipantId,
+  isResumeToken,
+  resumeTokenFor,
+} from "./participants.js";
+import { consentMessage, isActivityKind, isMomentaryActivity } from "./activities.js";
+import { cleanCaptionSegment } from "./captions.js";
+import { PasscodeAttempts, verifyPasscode } from "./passcodes.js";
+import {
+  MAX_RECEIPT_IDS,
+  REACTION_EMOJIS,
+  SYSTEM_SENDER,
+  canModify,
+  cleanMessageText,
+  createMessage,
+  isReservedName,
+  isSystemMessage,
+  quoteOf,
+  toggleReaction,
+} from "./chat.js";
+import { createMessageStore, createRoomStore } from "./stores/index.js";
+import { createIceProvider } from "./ice/index.js";
 
 const app = express();
 const server = createServer(app);
 
 app.use(bodyParser.json());
 
-// Twilio client
-const accountSid = process.env.TWILIO_ACCOUNT_SID;
-const authToken = process.env.TWILIO_AUTH_TOKEN;
-// console.log(accountSid, authToken);
-const client = twilio(accountSid, authToken);
+// STUN/TURN configuration source (see ice/index.js)
+const iceProvider = createIceProvider();
 
 const allowedOrigins = [
     "https://video-chat-app-2-ki3scrodu-atultiwari000s-projects.vercel.app",
@@ -58,7 +78,7 @@ const io = new Server(server, {
         callback(new Error('Not allowed by CORS'));
       }
     },
-    methods: ["GET", "POST"],
+    methods: ["GET", "POST", "PATCH", "DELETE"],
     credentials: true
   },
   transports: ['polling', 'websocket'],
@@ -70,169 +90,724 @@ const io = new Server(server, {
 // const userToSocketIdMap = new Map();
 // const socketIdToUserMap = new Map();
 // const disconnectTimers = new Map();
-const roomMessages = new Map(); 
+const messageStore = createMessageStore();
+const rooms = new RoomRegistry({ store: createRoomStore() });
+const participants = new ParticipantRegistry();
+const passcodeAttempts = new PasscodeAttempts();
+
+// Behind a reverse proxy every socket seems to come from the proxy. Set
+// TRUST_PROXY_HOPS to the number of proxies in front of the server to use the
+// client address they forward in X-Forwarded-For instead.
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS) || 0;
+if (TRUST_PROXY_HOPS > 0) app.set("trust proxy", TRUST_PROXY_HOPS);
+
+const clientAddress = (socket) => {
+  if (TRUST_PROXY_HOPS > 0) {
+    // Each proxy appends the address it got the request from; earlier entries may be forged
+    const forwarded = String(socket.handshake.headers["x-forwarded-for"] || "")
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean);
+    if (forwarded.length >= TRUST_PROXY_HOPS) return forwarded[forwarded.length - TRUST_PROXY_HOPS];
+  }
+  return socket.handshake.address;
+};
+
+// How long a room stays around with nobody in it before it and its chat are discarded
+const EMPTY_ROOM_GRACE_MS = (Number(process.env.CHAT_EMPTY_ROOM_GRACE_MINUTES) || 5) * 60 * 1000;
+const emptyRoomTimers = new Map();
+
+const cancelEmptyRoomCleanup = (roomId) => {
+  clearTimeout(emptyRoomTimers.get(roomId));
+  emptyRoomTimers.delete(roomId);
+};
+
+const scheduleEmptyRoomCleanup = (roomId) => {
+  cancelEmptyRoomCleanup(roomId);
+  emptyRoomTimers.set(roomId, setTimeout(() => {
+    emptyRoomTimers.delete(roomId);
+    if (getParticipantCount(roomId) > 0) return;
+    rooms.delete(roomId);
+    closeRoom(roomId, "empty");
+  }, EMPTY_ROOM_GRACE_MS));
+};
+
+const getParticipantCount = (roomId) => participants.count(roomId);
+
+// Delivers a signaling event to whichever socket currently speaks for a participant
+const emitToParticipant = (participantId, event, payload) => {
+  const socketId = participants.socketIdOf(participantId);
+  if (socketId) io.to(socketId).emit(event, payload);
+};
+
+// Stores a chat message and sends it to everyone in the room, including its author
+const postChatMessage = async (roomId, message) => {
+  try {
+    await messageStore.append(roomId, message);
+  } catch (err) {
+    console.error(`Error storing chat message for room ${roomId}:`, err);
+  }
+  io.to(roomId).emit("chat:message", message);
+};
+
+// Host key, waiting room and passcode hash stay on the server
+const serializeRoom = ({ hostKey, hostId, lobby, passcode, ...room }) => ({
+  ...room,
+  hasPasscode: Boolean(passcode),
+  participantCount: getParticipantCount(room.id),
+});
+
+// Remove everyone from a room that no longer exists
+const closeRoom = (roomId, reason) => {
+  io.to(roomId).emit("room:closed", { room: roomId, reason });
+  io.sockets.adapter.rooms.get(roomId)?.forEach((socketId) => {
+    const memberSocket = io.sockets.sockets.get(socketId);
+    if (memberSocket) memberSocket.data.room = null;
+  });
+  io.in(roomId).socketsLeave(roomId);
+  participants.removeRoom(roomId);
+  passcodeAttempts.clearRoom(roomId);
+  cancelEmptyRoomCleanup(roomId);
+  messageStore.clear(roomId).catch((err) => {
+    console.error(`Error clearing chat for room ${roomId}:`, err);
+  });
+};
 
 app.get('/', (req, res) => {
   res.send('Server is running');
 });
 
+// Room management
+app.post("/rooms", async (req, res) => {
+  try {
+    const { id, createdBy, maxParticipants, expiresInMinutes, passcode } = req.body ?? {};
+    const room = await rooms.create({ id, createdBy, maxParticipants, expiresInMinutes, passcode });
+    // Stored chat under an id without a room is left over from an earlier
+    // meeting whose room was discarded
+    await messageStore.clear(room.id).catch((err) => {
+      console.error(`Error clearing chat for room ${room.id}:`, err);
+    });
+    // A room nobody ever joins is discarded like one everybody left
+    scheduleEmptyRoomCleanup(room.id);
+    // The creator's proof of being the host; never sent again
+    res.status(201).json({ ...serializeRoom(room), hostKey: room.hostKey });
+  } catch (err) {
+    if (err instanceof RoomError) return res.status(err.status).json({ error: err.message });
+    console.error("Error creating room:", err);
+    res.status(500).json({ error: "Failed to create room" });
+  }
+});
+
+app.get("/rooms/:id", (req, res) => {
+  const room = rooms.get(req.params.id);
+  if (!room || rooms.isExpired(room)) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+  res.json(serializeRoom(room));
+});
+
+// Changing a room takes the host key handed out by POST /rooms, sent as X-Host-Key.
+// Responds and returns null when the room is missing or the key is wrong.
+const hostRoom = (req, res) => {
+  const room = rooms.get(req.params.id);
+  if (!room) {
+    res.status(404).json({ error: "Room not found" });
+    return null;
+  }
+  if (!rooms.isHostKey(room, req.get("X-Host-Key"))) {
+    res.status(403).json({ error: "Only the host can change this room" });
+    return null;
+  }
+  return room;
+};
+
+app.patch("/rooms/:id/lock", (req, res) => {
+  const room = hostRoom(req, res);
+  if (!room) return;
+  rooms.setLocked(room.id, req.body?.locked ?? true);
+  io.to(room.id).emit("room:updated", serializeRoom(room));
+  res.json(serializeRoom(room));
+});
+
+app.delete("/rooms/:id", (req, res) => {
+  const room = hostRoom(req, res);
+  if (!room) return;
+  rooms.delete(room.id);
+  closeRoom(room.id, "deleted");
+  res.status(204).end();
+});
+
 io.on('connection', (socket) => {
     // console.log('User connected:', socket.id);
+
+    // Events that carry a payload ignore anything but an object, and a handler
+    // that throws is logged. Either would otherwise take the whole server down.
+    const onPayload = (event, handler) => {
+        socket.on(event, async (payload) => {
+            if (!payload || typeof payload !== "object") return;
+            try {
+                await handler(payload);
+            } catch (err) {
+                console.error(`Error handling ${event}:`, err);
+            }
+        });
+    };
+
+    // The participant this socket speaks for: the one whose resume token it
+    // presents, or else a new one. A new identity is sent to this socket only,
+    // ahead of any answer that mentions it.
+    const resolveParticipant = (participantId, resumeToken) => {
+        if (isResumeToken(participantId, resumeToken)) return participantId;
+
+        const id = generateParticipantId();
+        socket.emit("session:identity", { participantId: id, resumeToken: resumeTokenFor(id) });
+        return id;
+    };
+
+    // Wrong guesses are counted per room and client address, so one person
+    // locking themselves out does not lock out everyone else. The right
+    // passcode is asked for once per participant (at the knock); the room:join
+    // that follows does not need it again.
+    const checkPasscode = async (roomRecord, passcode, participantId) => {
+        if (!roomRecord?.passcode || roomRecord.lobby.hasPassedPasscode(participantId)) return null;
+
+        const key = `${roomRecord.id}:${clientAddress(socket)}`;
+        if (passcodeAttempts.isLocked(key)) return JOIN_REJECTION.PASSCODE_LOCKED;
+        if (passcode === undefined || passcode === null || passcode === "") return JOIN_REJECTION.PASSCODE_REQUIRED;
+
+        // Counted before hashing so a burst of guesses cannot slip past the limit
+        passcodeAttempts.recordFailure(key);
+        if (!(await verifyPasscode(roomRecord.passcode, passcode))) {
+            return passcodeAttempts.isLocked(key) ? JOIN_REJECTION.PASSCODE_LOCKED : JOIN_REJECTION.PASSCODE_INVALID;
+        }
+        passcodeAttempts.reset(key);
+        roomRecord.lobby.passedPasscode(participantId);
+        return null;
+    };
     
-    socket.on("room:join", ({ room, userName }) => {
-        const cleanRoom = String(room).trim();
-        
-        // Check room size BEFORE allowing join
-        const clientsInRoom = io.sockets.adapter.rooms.get(cleanRoom);
-        const clientCount = clientsInRoom ? clientsInRoom.size : 0;
+    onPayload("room:join", async (payload) => {
+        const { room, participantId, resumeToken, hostKey, passcode } = payload;
+        if (typeof room !== "string" || !room.trim()) return;
+        if (payload.userName !== undefined && typeof payload.userName !== "string") return;
+
+        const cleanRoom = room.trim();
+        const userName = payload.userName?.trim().slice(0, 40) || "Unknown";
+        const id = resolveParticipant(participantId, resumeToken);
+
+        // The host and participants keeping their seat skip the passcode and the
+        // waiting room. The passcode goes first as hashing it takes a while.
+        const isHost = rooms.isHostKey(rooms.get(cleanRoom), hostKey);
+        const skipsChecks = isHost || participants.get(id)?.roomId === cleanRoom;
+        const passcodeReason = skipsChecks ? null : await checkPasscode(rooms.get(cleanRoom), passcode, id);
+
+        // A participant coming back within the grace window keeps their seat
+        const existing = participants.get(id);
+        const isReturning = existing?.roomId === cleanRoom;
+
+        // Check the room exists and has space BEFORE allowing join
+        const clientCount = getParticipantCount(cleanRoom) - (isReturning ? 1 : 0);
+        const roomRecord = rooms.get(cleanRoom);
+        const reason = rooms.checkJoin(cleanRoom, clientCount)
+            || (isReservedName(userName) ? JOIN_REJECTION.NAME_RESERVED : null)
+            || (isReturning || isHost
+                ? null
+                : passcodeReason || rooms.checkAdmission(roomRecord, id, hostKey));
         
         // console.log(`Room ${cleanRoom} has ${clientCount} users. ${userName} trying to join.`);
         
-        // Reject if room already has 2 users
-        if (clientCount >= 2) {
-            // console.log(`Room ${cleanRoom} is full. Rejecting ${socket.id}`);
-            socket.emit("room:full", {
+        if (reason) {
+            // console.log(`Rejecting ${socket.id} from ${cleanRoom}: ${reason}`);
+            socket.emit("room:join:rejected", {
                 room: cleanRoom,
-                message: "This room is full. Maximum 2 participants allowed."
+                reason,
+                message: rejectionMessage(reason, rooms.get(cleanRoom))
             });
             return; // Don't proceed with join
         }
+
+        // Switching rooms on the same socket leaves the previous one first
+        if (socket.data.room && socket.data.room !== cleanRoom) {
+            handleLeave('room switch', socket.data.room);
+        }
+
+        // Still holding a seat elsewhere (e.g. inside its grace window) - release it
+        if (existing && !isReturning) {
+            participants.remove(id);
+            io.to(existing.roomId).emit("user:left", { id, userName: existing.userName });
+            if (getParticipantCount(existing.roomId) === 0) {
+                scheduleEmptyRoomCleanup(existing.roomId);
+            }
+        }
+
+        const { participant, resumed, previousSocketId } = participants.join({
+            id,
+            roomId: cleanRoom,
+            socketId: socket.id,
+            userName,
+        });
+
+        // The old socket may not have timed out yet; it no longer speaks for this participant
+        if (previousSocketId && previousSocketId !== socket.id) {
+            const previousSocket = io.sockets.sockets.get(previousSocketId);
+            if (previousSocket) {
+                previousSocket.data.participantId = null;
+                previousSocket.data.room = null;
+                previousSocket.leave(cleanRoom);
+            }
+        }
         
+        if (isHost) roomRecord.hostId = id;
+
         // Store validated room and user data
+        socket.data.participantId = id;
         socket.data.userName = userName;
         socket.data.room = cleanRoom;
         socket.join(cleanRoom);
+        cancelEmptyRoomCleanup(cleanRoom);
         
-        // console.log(`${userName} (${socket.id}) successfully joined room: ${cleanRoom}`);
-
-        // Get updated list of all clients in the room (including the one who just joined)
-        const updatedClientsInRoom = io.sockets.adapter.rooms.get(cleanRoom) || new Set();
-        const usersInRoom = [];
-        updatedClientsInRoom.forEach(socketId => {
-            const userSocket = io.sockets.sockets.get(socketId);
-            if (userSocket) {
-                usersInRoom.push({
-                    id: userSocket.id,
-                    userName: userSocket.data.userName || "Unknown"
-                });
-            }
-        });
+        // console.log(`${userName} (${id}) successfully joined room: ${cleanRoom}`);
+
+        // Everyone holding a seat, including participants inside their grace window
+        const usersInRoom = participants.inRoom(cleanRoom).map((p) => ({
+            id: p.id,
+            userName: p.userName || "Unknown",
+            screenStreamId: p.screenStreamId || null,
+            activities: p.activities,
+            wantsCaptions: p.wantsCaptions
+        }));
 
         // console.log(`Total users in room ${cleanRoom}:`, usersInRoom.length);
         
         // 1. Tell the user who just joined about everyone in the room
-        socket.emit("room:joined", { users: usersInRoom });
+        socket.emit("room:joined", {
+            participantId: id,
+            resumed,
+            users: usersInRoom,
+            isHost: roomRecord.hostId === id,
+            // Whoever knocked while the host was away
+            lobby: roomRecord.hostId === id ? roomRecord.lobby.list() : [],
+        });
 
-        // 2. Tell everyone else in the room that a new user has joined
-        socket.to(cleanRoom).emit("user:joined", {
-            id: socket.id,
-            userName: userName
+        // 2. Tell everyone else in the room that a user has joined (or is back)
+        socket.to(cleanRoom).emit(resumed ? "user:reconnected" : "user:joined", {
+            id,
+            userName: participant.userName
         });
+
+        // 3. Replay the latest chat so late joiners and reconnects catch up
+        try {
+            const page = await messageStore.getPage(cleanRoom);
+            socket.emit("chat:history", { room: cleanRoom, before: null, ...page });
+        } catch (err) {
+            console.error(`Error loading chat history for room ${cleanRoom}:`, err);
+        }
+    });
+
+    // Older chat pages, requested by message id
+    onPayload("chat:history", async ({ before, limit }) => {
+        const room = socket.data.room;
+        if (!room) return;
+
+        try {
+            const page = await messageStore.getPage(room, { before, limit });
+            socket.emit("chat:history", { room, before: before ?? null, ...page });
+        } catch (err) {
+            console.error(`Error loading chat history for room ${room}:`, err);
+        }
     });
 
+    const clearSocketData = () => {
+        socket.data.participantId = null;
+        socket.data.room = null;
+        socket.data.userName = null;
+    };
+
+    // Once nobody holds a seat, keep the chat for a while in case someone comes back
+    const scheduleCleanupIfEmpty = (room) => {
+        const remainingCount = getParticipantCount(room);
+        // console.log(`Room ${room} now has ${remainingCount} users`);
+        if (remainingCount === 0) {
+            scheduleEmptyRoomCleanup(room);
+        }
+    };
+
     // Handle user leaving gracefully
     const handleLeave = (reason, room) => {
-        const userName = socket.data.userName;
+        const participantId = socket.data.participantId;
         
-        if (!room || !userName) {
+        if (!room || !participantId) {
             return;
         }
         
-        // console.log(`${userName} (${socket.id}) leaving room ${room}. Reason: ${reason}`);
+        // console.log(`${participantId} (${socket.id}) leaving room ${room}. Reason: ${reason}`);
 
-        socket.to(room).emit("user:left", { id: socket.id, userName });
+        const participant = participants.remove(participantId);
+        socket.to(room).emit("user:left", { id: participantId, userName: participant?.userName });
         socket.leave(room);
-        
-        // Clear stored data
-        socket.data.room = null;
-        socket.data.userName = null;
-        
-        // Log updated room size
-        const remainingClients = io.sockets.adapter.rooms.get(room);
-        const remainingCount = remainingClients ? remainingClients.size : 0;
-        // console.log(`Room ${room} now has ${remainingCount} users`);
+        clearSocketData();
+
+        scheduleCleanupIfEmpty(room);
     };
     
+    // A dropped socket keeps its seat for the grace window before the others hear about it
     socket.on('disconnect', () => {
+        leaveLobby();
+
         const room = socket.data.room;
+        const participantId = socket.data.participantId;
         // console.log('User disconnected:', socket.id);
-        handleLeave('native disconnect', room);
+        if (!room || !participantId) return;
+
+        participants.markDisconnected(participantId, (participant) => {
+            io.to(room).emit("user:left", { id: participant.id, userName: participant.userName });
+            scheduleCleanupIfEmpty(room);
+        });
     });
 
     socket.on("leave:room", () => {
         const room = socket.data.room;
-        const userName = socket.data.userName;
         
-        if (!room || !userName) {
+        if (!room || !socket.data.participantId) {
             return;
         }
         
         handleLeave('explicit leave', room);
     });
 
-    // Call signaling
-    socket.on("user:call", ({ to, offer, userName }) => {
-        // console.log(`Call from ${socket.id} to ${to}`);
-        io.to(to).emit("incoming:call", { from: socket.id, offer, userName });
-    });
+    // Waiting room: joiners knock from the preview page and wait until the host answers
+    onPayload("lobby:knock", async ({ room, userName, participantId: claimedId, resumeToken, hostKey, passcode }) => {
+        const cleanRoom = String(room).trim();
+        const roomRecord = rooms.get(cleanRoom);
+        const reason = rooms.checkJoin(cleanRoom, getParticipantCount(cleanRoom))
+            || (isReservedName(userName) ? JOIN_REJECTION.NAME_RESERVED : null);
+        if (reason) {
+            socket.emit("lobby:denied", { reason, message: rejectionMessage(reason, roomRecord) });
+            return;
+        }
+        const participantId = resolveParticipant(claimedId, resumeToken);
+
+        const isHost = rooms.isHostKey(roomRecord, hostKey);
+        const isSeated = participants.get(participantId)?.roomId === cleanRoom;
+        let passcodeReason = isHost || isSeated ? null : await checkPasscode(roomRecord, passcode, participantId);
+        // The room may have closed while the passcode was hashed
+        if (!passcodeReason && rooms.get(cleanRoom) !== roomRecord) passcodeReason = JOIN_REJECTION.NOT_FOUND;
+        if (passcodeReason) {
+            socket.emit("lobby:denied", { reason: passcodeReason, message: rejectionMessage(passcodeReason, roomRecord) });
+            return;
+        }
+
+        // The host, anyone let in before and anyone still holding a seat go straight in
+        if (isSeated || !rooms.checkAdmission(roomRecord, participantId, hostKey)) {
+            socket.emit("lobby:admitted", { room: cleanRoom });
+            return;
+        }
 
-    socket.on("call:accepted", ({ to, ans, userName }) => {
-        // console.log(`Call accepted by ${socket.id} to ${to}`);
-        io.to(to).emit("call:accepted", { 
-            from: socket.id, 
-            ans, 
-            userName: userName || socket.data.userName 
+        if (roomRecord.lobby.isCoolingDown(participantId)) {
+            socket.emit("lobby:denied", {
+                reason: "denied",
+                message: "The host did not let you in. Wait a minute before asking again.",
+            });
+            return;
+        }
+
+        // A socket waits for one participant in one room at a time
+        if (socket.data.lobbyRoom) leaveLobby();
+
+        const entry = roomRecord.lobby.knock({
+            id: participantId,
+            userName: String(userName || "Guest").trim().slice(0, 40) || "Guest",
+            socketId: socket.id,
         });
+        if (!entry) {
+            socket.emit("lobby:denied", {
+                reason: "lobby-full",
+                message: "Too many people are waiting to join. Try again later.",
+            });
+            return;
+        }
+        socket.data.lobbyRoom = cleanRoom;
+        if (roomRecord.hostId) {
+            emitToParticipant(roomRecord.hostId, "lobby:knock", { id: entry.id, userName: entry.userName });
+        }
     });
 
-    // Peer negotiation signaling
-    socket.on("peer:nego:needed", ({ to, offer }) => {
-        io.to(to).emit("peer:nego:needed", { from: socket.id, offer });
+    // Giving up waiting, explicitly or by disconnecting
+    const leaveLobby = () => {
+        const roomRecord = socket.data.lobbyRoom && rooms.get(socket.data.lobbyRoom);
+        socket.data.lobbyRoom = null;
+        const entry = roomRecord?.lobby.findBySocket(socket.id);
+        if (!entry) return;
+
+        roomRecord.lobby.remove(entry.id);
+        if (roomRecord.hostId) emitToParticipant(roomRecord.hostId, "lobby:removed", { id: entry.id });
+    };
+
+    socket.on("lobby:leave", leaveLobby);
+
+    // Only the host answers knocks
+    const answerKnock = (admitted) => ({ id }) => {
+        const room = socket.data.room;
+        const roomRecord = room && rooms.get(room);
+        if (!roomRecord || !roomRecord.hostId || roomRecord.hostId !== socket.data.participantId) return;
+
+        const entry = admitted ? roomRecord.lobby.admit(id) : roomRecord.lobby.deny(id);
+        if (!entry) return;
+
+        if (admitted) {
+            io.to(entry.socketId).emit("lobby:admitted", { room });
+        } else {
+            io.to(entry.socketId).emit("lobby:denied", {
+                reason: "denied",
+                message: "The host did not let you in.",
+            });
+        }
+        emitToParticipant(roomRecord.hostId, "lobby:removed", { id });
+    };
+
+    onPayload("lobby:admit", answerKnock(true));
+    onPayload("lobby:deny", answerKnock(false));
+
+    // Call signaling - addressed by participant id, and only within the sender's room
+    const canSignal = (to) => {
+        const from = socket.data.participantId;
+        return Boolean(from && to && participants.get(to)?.roomId === socket.data.room);
+    };
+
+    // Perfect-negotiation signaling: offers and answers travel on one channel,
+    // each side decides what to do with them (see client/services/peer.ts)
+    onPayload("peer:description", ({ to, description }) => {
+        if (!description || !canSignal(to)) return;
+        emitToParticipant(to, "peer:description", { from: socket.data.participantId, description });
     });
 
-    socket.on("peer:nego:done", ({ to, ans }) => {
-        io.to(to).emit("peer:nego:final", { from: socket.id, ans });
+    // Screen sharing - remembered so late joiners know which stream is the screen
+    onPayload("screen:started", ({ streamId }) => {
+        const room = socket.data.room;
+        if (!room || !streamId) return;
+
+        const participant = participants.get(socket.data.participantId);
+        if (!participant) return;
+
+        participant.screenStreamId = String(streamId);
+        socket.to(room).emit("screen:started", { id: participant.id, streamId: participant.screenStreamId });
+    });
+
+    socket.on("screen:stopped", () => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        if (!room || !participant?.screenStreamId) return;
+
+        participant.screenStreamId = null;
+        socket.to(room).emit("screen:stopped", { id: participant.id });
+    });
+
+    // Capturing activities (recording, transcribing, screenshots) - everyone is
+    // told, and late joiners see ongoing ones in room:joined
+    onPayload("activity:started", ({ kind }) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        if (!room || !participant || !isActivityKind(kind)) return;
+
+        if (!isMomentaryActivity(kind)) {
+            if (participant.activities.includes(kind)) return;
+            participant.activities.push(kind);
+        }
+        socket.to(room).emit("activity:started", { id: participant.id, userName: participant.userName, kind });
+    });
+
+    onPayload("activity:stopped", ({ kind }) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        if (!room || !participant || !participant.activities.includes(kind)) return;
+
+        participant.activities = participant.activities.filter((k) => k !== kind);
+        socket.to(room).emit("activity:stopped", { id: participant.id, kind });
+    });
+
+    // Consent decisions are kept in the chat as System messages
+    onPayload("activity:consent", async ({ ownerId, kind, accepted }) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        const owner = participants.get(ownerId);
+        if (!room || !participant || owner?.roomId !== room || !isActivityKind(kind)) return;
+
+        await postChatMessage(room, createMessage({
+            sender: SYSTEM_SENDER,
+            text: consentMessage({
+                userName: participant.userName,
+                ownerName: owner.userName,
+                kind,
+                accepted: Boolean(accepted),
+            }),
+        }));
+    });
+
+    // Speakers only transcribe themselves while somebody wants captions, so
+    // everyone learns who has them turned on
+    onPayload("captions:toggle", ({ enabled }) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        if (!room || !participant) return;
+
+        participant.wantsCaptions = Boolean(enabled);
+        socket.to(room).emit("captions:toggle", { id: participant.id, enabled: participant.wantsCaptions });
+    });
+
+    // Caption segments of the sender's own speech; not stored
+    onPayload("caption:segment", (segment) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        const cleaned = cleanCaptionSegment(segment);
+        if (!room || !participant || !cleaned) return;
+
+        socket.to(room).emit("caption:segment", {
+            ...cleaned,
+            speakerId: participant.id,
+            userName: participant.userName,
+        });
     });
 
     // Handle ICE candidates
-    socket.on("ice:candidate", ({ to, candidate }) => {
-        io.to(to).emit("ice:candidate", { 
-            from: socket.id, 
+    onPayload("ice:candidate", ({ to, candidate }) => {
+        if (!canSignal(to)) return;
+        emitToParticipant(to, "ice:candidate", { 
+            from: socket.data.participantId, 
             candidate 
         });
     });
 
+    // Data messages between peers whose data channel is not open (yet)
+    onPayload("peer:message", ({ to, message }) => {
+        if (!message || !canSignal(to)) return;
+        emitToParticipant(to, "peer:message", { from: socket.data.participantId, message });
+    });
+
     // Handle call end
-    socket.on("call:end", ({ to }) => {
-        if (to) {
-            // console.log(`Call ended by ${socket.id} to ${to}`);
-            io.to(to).emit("call:ended", { from: socket.id });
+    onPayload("call:end", ({ to }) => {
+        if (canSignal(to)) {
+            // console.log(`Call ended by ${socket.data.participantId} to ${to}`);
+            emitToParticipant(to, "call:ended", { from: socket.data.participantId });
         }
     });
 
-    // Handle chat messages
-    socket.on("chat:message", ({ room, message, userName }) => {
-        // console.log(`Chat message in room ${room} from ${userName}`);
-        
-        // Store in memory
-        if (!roomMessages.has(room)) {
-            roomMessages.set(room, []);
+    // Handle chat messages. Room and sender come from the joined socket, not the payload.
+    onPayload("chat:message", async ({ message, replyTo }) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        const text = cleanMessageText(message);
+        if (!room || !participant || !text) return;
+
+        const messageData = createMessage({
+            sender: participant.userName || "Unknown",
+            senderId: participant.id,
+            text,
+        });
+
+        if (replyTo !== undefined && replyTo !== null) {
+            try {
+                const original = await messageStore.find(room, replyTo);
+                if (original) messageData.replyTo = quoteOf(original);
+            } catch (err) {
+                console.error(`Error looking up replied message in room ${room}:`, err);
+            }
         }
-        
-        const messageData = {
-            id: Date.now(),
-            sender: userName,
-            text: message,
-            timestamp: new Date(),
-        };
-        
-        roomMessages.get(room).push(messageData);
-        
-        // Broadcast to everyone in the room (including sender)
-        io.to(room).emit("chat:message", messageData);
+
+        await postChatMessage(room, messageData);
+    });
+
+    // Typing indicator, sent by clients at most every few seconds while typing
+    onPayload("chat:typing", ({ typing }) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        if (!room || !participant) return;
+
+        socket.to(room).emit("chat:typing", {
+            id: participant.id,
+            userName: participant.userName,
+            typing: Boolean(typing),
+        });
+    });
+
+    // Delivery and read receipts go straight to each message's author; they are not stored
+    const relayReceipt = (status) => async ({ ids }) => {
+        const room = socket.data.room;
+        const participant = participants.get(socket.data.participantId);
+        if (!room || !participant || !Array.isArray(ids)) return;
+
+        const byAuthor = new Map();
+        try {
+            for (const id of ids.slice(0, MAX_RECEIPT_IDS)) {
+                const message = await messageStore.find(room, id);
+                if (!message?.senderId || message.senderId === participant.id) continue;
+                byAuthor.set(message.senderId, [...(byAuthor.get(message.senderId) || []), id]);
+            }
+        } catch (err) {
+            console.error(`Error looking up chat receipts in room ${room}:`, err);
+            return;
+        }
+
+        byAuthor.forEach((authorIds, authorId) => {
+            emitToParticipant(authorId, "chat:receipt", {
+                ids: authorIds,
+                by: participant.id,
+                userName: participant.userName,
+                status,
+            });
+        });
+    };
+
+    onPayload("chat:delivered", relayReceipt("delivered"));
+    onPayload("chat:read", relayReceipt("read"));
+
+    // Edits, deletions and reactions change a stored message and everyone
+    // gets the new version as "chat:updated"
+    const updateMessage = async (id, validate, changesFor) => {
+        const room = socket.data.room;
+        const participantId = socket.data.participantId;
+        if (!room || !participantId) return;
+
+        try {
+            const message = await messageStore.find(room, id);
+            if (!message || !validate(message, participantId)) return;
+
+            const updated = await messageStore.update(room, id, changesFor(message, participantId));
+            if (updated) io.to(room).emit("chat:updated", updated);
+        } catch (err) {
+            console.error(`Error updating chat message in room ${room}:`, err);
+        }
+    };
+
+    onPayload("chat:edit", ({ id, text }) => {
+        const cleaned = cleanMessageText(text);
+        if (!cleaned) return;
+
+        updateMessage(id, canModify, () => ({ text: cleaned, editedAt: new Date() }));
+    });
+
+    onPayload("chat:delete", ({ id }) => {
+        updateMessage(id, canModify, () => ({ text: "", deleted: true, reactions: {} }));
+    });
+
+    onPayload("chat:react", ({ id, emoji }) => {
+        if (!REACTION_EMOJIS.includes(emoji)) return;
+
+        updateMessage(
+            id,
+            (message) => !message.deleted && !isSystemMessage(message),
+            (message, participantId) => ({ reactions: toggleReaction(message.reactions, emoji, participantId) })
+        );
     });
 });
 
+// Close rooms once their expiry passes
+const ROOM_SWEEP_INTERVAL_MS = 60 * 1000;
+setInterval(() => {
+  rooms.sweepExpired().forEach((roomId) => closeRoom(roomId, "expired"));
+  messageStore.prune().catch((err) => {
+    console.error("Error pruning chat history:", err);
+  });
+}, ROOM_SWEEP_INTERVAL_MS).unref();
+
 // Handle server errors
 io.engine.on("connection_error", (err) => {
     console.error('Connection error:', err.code, err.message);
@@ -241,14 +816,20 @@ io.engine.on("connection_error", (err) => {
 // Endpoint to get ICE servers
 app.get("/ice-servers", async (req, res) => {
   try {
-    const token = await client.tokens.create(); // creates an Access Token
-    res.json({ iceServers: token.iceServers });
+    const { iceServers, ttlSeconds } = await iceProvider.getIceServers();
+    // Credentials may be per-deployment secrets; never let proxies share them
+    res.set("Cache-Control", "no-store");
+    res.json({ iceServers, ttlSeconds });
   } catch (err) {
-    console.error("Error fetching Twilio ICE servers:", err);
+    console.error("Error fetching ICE servers:", err);
     res.status(500).send("Failed to get ICE servers");
   }
 });
 
+// Rooms from before a restart come back empty, and go like any other empty room
+// unless someone rejoins within the grace period
+(await rooms.load()).forEach((roomId) => scheduleEmptyRoomCleanup(roomId));
+
 const PORT = process.env.PORT || 5000;
 server.listen(PORT, '0.0.0.0', () => {
   console.log(`Server running on port ${PORT}`);
@@ -0,0 +1,95 @@
+// How many people may wait at once; more would only bury the host's list
+export const MAX_LOBBY_WAITING = Number(process.env.LOBBY_MAX_WAITING) || 20;
+
+// Admissions and passed passcodes remembered per room, oldest forgotten first
+const MAX_LOBBY_ADMITTED = 500;
+
+// How long someone the host turned away has to wait before knocking again
+export const LOBBY_DENIAL_COOLDOWN_MS = (Number(process.env.LOBBY_DENIAL_COOLDOWN_SECONDS) || 60) * 1000;
+
+// The waiting room of one meeting. Joiners knock from the preview page and
+// wait here until the host lets them in or turns them away. Admission lasts
+// for the life of the room, so a reload or reconnect does not knock again.
+export class Lobby {
+    constructor({ maxWaiting = MAX_LOBBY_WAITING, denialCooldownMs = LOBBY_DENIAL_COOLDOWN_MS } = {}) {
+        this.maxWaiting = maxWaiting;
+        this.denialCooldownMs = denialCooldownMs;
+        // participant id -> { id, userName, socketId }
+        this.waiting = new Map();
+        this.admitted = new Set();
+        // Participants who gave the right passcode
+        this.passcodePassed = new Set();
+        // participant id -> time until which their knocks are refused. Not kept
+        // per address, which many joiners may share behind one NAT or proxy.
+        this.deniedUntil = new Map();
+    }
+
+    // Returns the entry, or null when the lobby is full. Knocking again (e.g.
+    // after a reload) only moves the entry to the new socket.
+    knock({ id, userName, socketId }) {
+        if (!this.waiting.has(id) && this.waiting.size >= this.maxWaiting) return null;
+
+        const entry = { id, userName, socketId };
+        this.waiting.set(id, entry);
+        return entry;
+    }
+
+    remove(id) {
+        const entry = this.waiting.get(id);
+        if (!entry) return null;
+        this.waiting.delete(id);
+        return entry;
+    }
+
+    admit(id) {
+        const entry = this.remove(id);
+        if (!entry) return null;
+
+        this.admitted.add(id);
+        if (this.admitted.size > MAX_LOBBY_ADMITTED) {
+            this.admitted.delete(this.admitted.values().next().value);
+        }
+        return entry;
+    }
+
+    // Turns a joiner away for a while
+    deny(id) {
+        const entry = this.remove(id);
+        if (!entry) return null;
+
+        this.deniedUntil.set(entry.id, Date.now() + this.denialCooldownMs);
+        return entry;
+    }
+
+    isCoolingDown(id) {
+        const now = Date.now();
+        this.deniedUntil.forEach((until, deniedId) => {
+            if (until <= now) this.deniedUntil.delete(deniedId);
+        });
+        return this.deniedUntil.has(id);
+    }
+
+    passedPasscode(id) {
+        this.passcodePassed.add(id);
+        if (this.passcodePassed.size > MAX_LOBBY_ADMITTED) {
+            this.passcodePassed.delete(this.passcodePassed.values().next().value);
+        }
+    }
+
+    hasPassedPasscode(id) {
+        return this.passcodePassed.has(id);
+    }
+
+    isAdmitted(id) {
+        return this.admitted.has(id);
+    }
+
+    findBySocket(socketId) {
+        return Array.from(this.waiting.values()).find((entry) => entry.socketId === socketId) || null;
+    }
+
+    // What the host sees
+    list() {
+        return Array.from(this.waiting.values()).map(({ id, userName }) => ({ id, userName }));
+    }
+}
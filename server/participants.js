@@ -0,0 +1,112 @@
+import crypto from "crypto";
+
+// How long a participant keeps their seat after their socket drops
+export const RECONNECT_GRACE_MS = (Number(process.env.RECONNECT_GRACE_SECONDS) || 30) * 1000;
+
+const PARTICIPANT_ID_PATTERN = /^[a-zA-Z0-9_-]{8,64}$/;
+
+export const isValidParticipantId = (id) => typeof id === "string" && PARTICIPANT_ID_PATTERN.test(id);
+
+// Participant ids are public - everyone in a room sees them - so they are only
+// identifiers. The server hands each new id out with a resume token, an HMAC of
+// the id, and only a socket presenting that token may speak for the id. Set
+// PARTICIPANT_TOKEN_SECRET to keep tokens valid across restarts.
+const TOKEN_SECRET = process.env.PARTICIPANT_TOKEN_SECRET || crypto.randomBytes(32).toString("hex");
+
+export const generateParticipantId = () => crypto.randomUUID();
+
+export const resumeTokenFor = (id) => crypto.createHmac("sha256", TOKEN_SECRET).update(id).digest("base64url");
+
+export const isResumeToken = (id, token) => {
+    if (!isValidParticipantId(id) || typeof token !== "string") return false;
+    const expected = Buffer.from(resumeTokenFor(id));
+    const given = Buffer.from(token);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
+
+// Participants are identified by an id the client keeps for the whole tab
+// session (along with its resume token), so a new socket after a network blip
+// is still the same person.
+// Each entry remembers which socket currently speaks for it (null while the
+// participant is inside the reconnect grace window).
+export class ParticipantRegistry {
+    constructor({ graceMs = RECONNECT_GRACE_MS } = {}) {
+        this.graceMs = graceMs;
+        this.participants = new Map();
+    }
+
+    get(id) {
+        return this.participants.get(id) || null;
+    }
+
+    // Adds a participant to a room, or hands an existing one over to a new socket.
+    // `resumed` is true when the participant was already in this room.
+    join({ id, roomId, socketId, userName }) {
+        const existing = this.participants.get(id);
+
+        if (existing && existing.roomId === roomId) {
+            clearTimeout(existing.disconnectTimer);
+            const previousSocketId = existing.socketId;
+            existing.disconnectTimer = null;
+            existing.socketId = socketId;
+            existing.userName = userName;
+            return { participant: existing, resumed: true, previousSocketId };
+        }
+
+        if (existing) this.remove(id);
+
+        const participant = {
+            id,
+            roomId,
+            socketId,
+            userName,
+            screenStreamId: null,
+            // Ongoing activity kinds (see activities.js)
+            activities: [],
+            // Whether this participant has captions turned on
+            wantsCaptions: false,
+            disconnectTimer: null,
+        };
+        this.participants.set(id, participant);
+        return { participant, resumed: false, previousSocketId: null };
+    }
+
+    // Keeps the seat for the grace window, then calls onExpire(participant)
+    markDisconnected(id, onExpire) {
+        const participant = this.participants.get(id);
+        if (!participant) return;
+
+        clearTimeout(participant.disconnectTimer);
+        participant.socketId = null;
+        participant.disconnectTimer = setTimeout(() => {
+            this.participants.delete(id);
+            onExpire(participant);
+        }, this.graceMs);
+    }
+
+    remove(id) {
+        const participant = this.participants.get(id);
+        if (!participant) return null;
+
+        clearTimeout(participant.disconnectTimer);
+        this.participants.delete(id);
+        return participant;
+    }
+
+    inRoom(roomId) {
+        return Array.from(this.participants.values()).filter((p) => p.roomId === roomId);
+    }
+
+    // Participants inside the grace window still count towards capacity
+    count(roomId) {
+        return this.inRoom(roomId).length;
+    }
+
+    removeRoom(roomId) {
+        this.inRoom(roomId).forEach((participant) => this.remove(participant.id));
+    }
+
+    socketIdOf(id) {
+        return this.participants.get(id)?.socketId ?? null;
+    }
+}
@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+// Optional numeric meeting passcodes. Only a salted scrypt hash is kept on the room.
+export const PASSCODE_LENGTH = 6;
+
+// scrypt is slow on purpose; the async version keeps it off the event loop
+const scrypt = promisify(crypto.scrypt);
+
+const PASSCODE_PATTERN = new RegExp(`^\\d{${PASSCODE_LENGTH}}$`);
+
+export const MAX_PASSCODE_ATTEMPTS = Number(process.env.MAX_PASSCODE_ATTEMPTS) || 5;
+export const PASSCODE_LOCKOUT_MS = (Number(process.env.PASSCODE_LOCKOUT_MINUTES) || 10) * 60 * 1000;
+
+export const isValidPasscode = (passcode) => typeof passcode === "string" && PASSCODE_PATTERN.test(passcode);
+
+export const hashPasscode = async (passcode) => {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(passcode, salt, 32);
+    return {
+        salt: salt.toString("base64"),
+        hash: hash.toString("base64"),
+    };
+};
+
+export const verifyPasscode = async ({ salt, hash }, passcode) => {
+    if (!isValidPasscode(passcode)) return false;
+    const expected = Buffer.from(hash, "base64");
+    const actual = await scrypt(passcode, Buffer.from(salt, "base64"), expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+};
+
+// Failed guesses per key (room and client address). After MAX_PASSCODE_ATTEMPTS
+// failures the key is locked out for PASSCODE_LOCKOUT_MS; a correct passcode
+// clears the count.
+export class PasscodeAttempts {
+    constructor({ maxAttempts = MAX_PASSCODE_ATTEMPTS, lockoutMs = PASSCODE_LOCKOUT_MS } = {}) {
+        this.maxAttempts = maxAttempts;
+        this.lockoutMs = lockoutMs;
+        this.entries = new Map();
+    }
+
+    isLocked(key) {
+        const entry = this.entries.get(key);
+        if (!entry?.lockedUntil) return false;
+        if (entry.lockedUntil > Date.now()) return true;
+        this.entries.delete(key);
+        return false;
+    }
+
+    recordFailure(key) {
+        const now = Date.now();
+        let entry = this.entries.get(key);
+        // A few wrong guesses spread over a long time never add up to a lockout
+        if (!entry || (!entry.lockedUntil && now - entry.firstFailureAt > this.lockoutMs)) {
+            entry = { failures: 0, firstFailureAt: now, lockedUntil: null };
+        }
+        entry.failures += 1;
+        if (entry.failures >= this.maxAttempts) {
+            entry.failures = 0;
+            entry.lockedUntil = now + this.lockoutMs;
+        }
+        this.entries.set(key, entry);
+    }
+
+    reset(key) {
+        this.entries.delete(key);
+    }
+
+    // Forget everything about a room that is gone
+    clearRoom(roomId) {
+        Array.from(this.entries.keys())
+            .filter((key) => key.startsWith(`${roomId}:`))
+            .forEach((key) => this.entries.delete(key));
+    }
+}
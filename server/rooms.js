@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import { Lobby } from "./lobby.js";
+import { MemoryRoomStore } from "./stores/roomStore.js";
+import { PASSCODE_LENGTH, hashPasscode, isValidPasscode } from "./passcodes.js";
+
+// Mesh calls scale poorly, so keep rooms small unless configured otherwise
+export const DEFAULT_MAX_PARTICIPANTS = Number(process.env.MAX_ROOM_PARTICIPANTS) || 6;
+
+// Reasons sent with "room:join:rejected"
+export const JOIN_REJECTION = {
+    FULL: "full",
+    LOCKED: "locked",
+    EXPIRED: "expired",
+    NOT_FOUND: "not-found",
+    NOT_ADMITTED: "not-admitted",
+    PASSCODE_REQUIRED: "passcode-required",
+    PASSCODE_INVALID: "passcode-invalid",
+    PASSCODE_LOCKED: "passcode-locked",
+    NAME_RESERVED: "name-reserved",
+};
+
+const ROOM_ID_PATTERN = /^[a-zA-Z0-9_-]{3,32}$/;
+
+const generateRoomId = () => crypto.randomBytes(6).toString("base64url").slice(0, 8).toLowerCase();
+
+export class RoomRegistry {
+    constructor({ store = new MemoryRoomStore() } = {}) {
+        this.store = store;
+        this.rooms = new Map();
+    }
+
+    // Brings back the rooms saved before a restart, returning their ids.
+    // Nobody is in them yet, so the host and the waiting room start over.
+    async load() {
+        const records = await this.store.loadAll();
+        records.forEach((record) => {
+            this.rooms.set(record.id, {
+                ...record,
+                createdAt: new Date(record.createdAt),
+                expiresAt: record.expiresAt ? new Date(record.expiresAt) : null,
+                hostId: null,
+                lobby: new Lobby(),
+            });
+        });
+        return records.map((record) => record.id);
+    }
+
+    // Saved in the background; a failed write only loses rooms on the next restart
+    persist() {
+        const records = Array.from(this.rooms.values()).map(({ hostId, lobby, ...record }) => record);
+        this.store.saveAll(records).catch((err) => {
+            console.error("Error saving rooms:", err);
+        });
+    }
+
+    async create({ id, createdBy, maxParticipants, expiresInMinutes, passcode } = {}) {
+        const roomId = id ? String(id).trim() : generateRoomId();
+
+        if (!ROOM_ID_PATTERN.test(roomId)) {
+            throw new RoomError(400, "Room id must be 3-32 letters, digits, '-' or '_'");
+        }
+
+        const capacity = maxParticipants === undefined ? DEFAULT_MAX_PARTICIPANTS : Number(maxParticipants);
+        if (!Number.isInteger(capacity) || capacity < 2 || capacity > DEFAULT_MAX_PARTICIPANTS) {
+            throw new RoomError(400, `maxParticipants must be between 2 and ${DEFAULT_MAX_PARTICIPANTS}`);
+        }
+
+        let expiresAt = null;
+        if (expiresInMinutes !== undefined && expiresInMinutes !== null) {
+            const minutes = Number(expiresInMinutes);
+            if (!Number.isFinite(minutes) || minutes <= 0) {
+                throw new RoomError(400, "expiresInMinutes must be a positive number");
+            }
+            expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+        }
+
+        const hasPasscode = passcode !== undefined && passcode !== null && passcode !== "";
+        if (hasPasscode && !isValidPasscode(passcode)) {
+            throw new RoomError(400, `passcode must be ${PASSCODE_LENGTH} digits`);
+        }
+        const passcodeHash = hasPasscode ? await hashPasscode(passcode) : null;
+
+        // Checked after hashing so two requests for the same id cannot both get it
+        if (this.rooms.has(roomId) && !this.isExpired(this.rooms.get(roomId))) {
+            throw new RoomError(409, "Room already exists");
+        }
+
+        const room = {
+            id: roomId,
+            createdBy: createdBy ? String(createdBy).trim().slice(0, 40) : null,
+            maxParticipants: capacity,
+            locked: false,
+            createdAt: new Date(),
+            expiresAt,
+            // Only handed to the creator; whoever joins with it is the host
+            hostKey: crypto.randomBytes(24).toString("base64url"),
+            hostId: null,
+            lobby: new Lobby(),
+            // { salt, hash } of the optional passcode
+            passcode: passcodeHash,
+        };
+
+        this.rooms.set(roomId, room);
+        this.persist();
+        return room;
+    }
+
+    get(id) {
+        return this.rooms.get(String(id).trim()) || null;
+    }
+
+    setLocked(id, locked) {
+        const room = this.get(id);
+        if (!room) return null;
+        room.locked = Boolean(locked);
+        this.persist();
+        return room;
+    }
+
+    delete(id) {
+        const deleted = this.rooms.delete(String(id).trim());
+        if (deleted) this.persist();
+        return deleted;
+    }
+
+    isExpired(room) {
+        return Boolean(room.expiresAt && room.expiresAt.getTime() <= Date.now());
+    }
+
+    // Returns a JOIN_REJECTION reason, or null when the join may proceed
+    checkJoin(id, currentCount) {
+        const room = this.get(id);
+        if (!room) return JOIN_REJECTION.NOT_FOUND;
+        if (this.isExpired(room)) return JOIN_REJECTION.EXPIRED;
+        if (room.locked) return JOIN_REJECTION.LOCKED;
+        if (currentCount >= room.maxParticipants) return JOIN_REJECTION.FULL;
+        return null;
+    }
+
+    isHostKey(room, hostKey) {
+        if (!room || typeof hostKey !== "string") return false;
+        const expected = Buffer.from(room.hostKey);
+        const given = Buffer.from(hostKey);
+        return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+    }
+
+    // Everyone but the host goes through the waiting room first
+    checkAdmission(room, participantId, hostKey) {
+        if (this.isHostKey(room, hostKey) || room.lobby.isAdmitted(participantId)) return null;
+        return JOIN_REJECTION.NOT_ADMITTED;
+    }
+
+    // Drop expired rooms, returning their ids so callers can evict sockets
+    sweepExpired() {
+        const expired = [];
+        this.rooms.forEach((room, id) => {
+            if (this.isExpired(room)) {
+                expired.push(id);
+                this.rooms.delete(id);
+            }
+        });
+        if (expired.length > 0) this.persist();
+        return expired;
+    }
+}
+
+export class RoomError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+export const rejectionMessage = (reason, room) => {
+    switch (reason) {
+        case JOIN_REJECTION.FULL:
+            return `This room is full. Maximum ${room?.maxParticipants ?? DEFAULT_MAX_PARTICIPANTS} participants allowed.`;
+        case JOIN_REJECTION.LOCKED:
+            return "This room has been locked by the host.";
+        case JOIN_REJECTION.EXPIRED:
+            return "This meeting has expired.";
+        case JOIN_REJECTION.NOT_ADMITTED:
+            return "The host has not let you in yet. Join again from the preview page to ask.";
+        case JOIN_REJECTION.PASSCODE_REQUIRED:
+            return "This meeting needs a passcode.";
+        case JOIN_REJECTION.PASSCODE_INVALID:
+            return "That passcode is not correct.";
+        case JOIN_REJECTION.PASSCODE_LOCKED:
+            return "Too many wrong passcodes. Try again in a few minutes.";
+        case JOIN_REJECTION.NAME_RESERVED:
+            return "That name is reserved. Go back and pick another one.";
+        case JOIN_REJECTION.NOT_FOUND:
+        default:
+            return "This room does not exist. Check the room code and try again.";
+    }
+};
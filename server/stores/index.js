@@ -0,0 +1,36 @@
+import path from "path";
+import { MemoryMessageStore } from "./memoryMessageStore.js";
+import { JsonlMessageStore } from "./jsonlMessageStore.js";
+import { MemoryRoomStore, JsonRoomStore } from "./roomStore.js";
+
+const chatDirectory = (env) => path.resolve(env.CHAT_STORE_DIR || "data/chat");
+
+// Picks the chat store from CHAT_STORE ("memory" or "jsonl")
+export const createMessageStore = (env = process.env) => {
+    const limits = {
+        maxMessagesPerRoom: Number(env.CHAT_MAX_MESSAGES_PER_ROOM) || 500,
+        ttlMs: (Number(env.CHAT_MESSAGE_TTL_MINUTES) || 24 * 60) * 60 * 1000,
+    };
+
+    switch (env.CHAT_STORE) {
+        case "jsonl":
+            return new JsonlMessageStore({
+                ...limits,
+                directory: chatDirectory(env),
+            });
+        case "memory":
+        case undefined:
+        case "":
+            return new MemoryMessageStore(limits);
+        default:
+            throw new Error(`Unknown CHAT_STORE "${env.CHAT_STORE}"`);
+    }
+};
+
+// Rooms are kept wherever the chat is, so stored history always has its room
+export const createRoomStore = (env = process.env) =>
+    env.CHAT_STORE === "jsonl"
+        ? new JsonRoomStore({ file: path.join(chatDirectory(env), "rooms.json") })
+        : new MemoryRoomStore();
+
+export { MemoryMessageStore, JsonlMessageStore, MemoryRoomStore, JsonRoomStore };
@@ -0,0 +1,154 @@
+import fs from "fs/promises";
+import path from "path";
+import { MemoryMessageStore } from "./memoryMessageStore.js";
+
+// Persists each room's chat as one JSON object per line so history survives
+// restarts. Rooms are read into memory on first use; appends go straight to
+// disk and the file is rewritten whenever old messages are trimmed away or
+// one is edited.
+export class JsonlMessageStore extends MemoryMessageStore {
+    constructor({ directory, ...limits } = {}) {
+        super(limits);
+        this.directory = directory;
+        this.loading = new Map();
+        this.writes = new Map();
+    }
+
+    async append(roomId, message) {
+        const messages = await this.load(roomId);
+        messages.push(message);
+
+        if (this.trim(messages) > 0) {
+            await this.enqueueRewrite(roomId, messages);
+        } else {
+            await this.enqueue(roomId, () => fs.appendFile(this.fileFor(roomId), JSON.stringify(message) + "\n"));
+        }
+        return message;
+    }
+
+    async update(roomId, id, changes) {
+        const message = await super.update(roomId, id, changes);
+        if (message) {
+            await this.enqueueRewrite(roomId, await this.load(roomId));
+        }
+        return message;
+    }
+
+    async getPage(roomId, options) {
+        const messages = await this.load(roomId);
+        if (this.trim(messages) > 0) {
+            await this.enqueueRewrite(roomId, messages);
+        }
+        return super.getPage(roomId, options);
+    }
+
+    async clear(roomId) {
+        await super.clear(roomId);
+        await this.enqueue(roomId, () => fs.rm(this.fileFor(roomId), { force: true }));
+    }
+
+    async prune() {
+        await Promise.all(Array.from(this.rooms.entries()).map(async ([roomId, messages]) => {
+            if (this.trim(messages) === 0) return;
+            if (messages.length === 0) {
+                await this.clear(roomId);
+            } else {
+                await this.enqueueRewrite(roomId, messages);
+            }
+        }));
+        await this.pruneFiles();
+    }
+
+    // Rooms nobody used since a restart are only on disk. A file last written
+    // before the TTL holds nothing but expired messages.
+    async pruneFiles() {
+        let names;
+        try {
+            names = await fs.readdir(this.directory);
+        } catch (err) {
+            if (err.code === "ENOENT") return;
+            throw err;
+        }
+
+        const cutoff = Date.now() - this.ttlMs;
+        await Promise.all(names.filter((name) => name.endsWith(".jsonl")).map(async (name) => {
+            const roomId = decodeURIComponent(name.slice(0, -".jsonl".length));
+            if (this.rooms.has(roomId) || this.loading.has(roomId)) return;
+
+            const file = path.join(this.directory, name);
+            const stats = await fs.stat(file).catch(() => null);
+            if (stats && stats.mtimeMs < cutoff) {
+                await this.enqueue(roomId, () => fs.rm(file, { force: true }));
+            }
+        }));
+    }
+
+    async load(roomId) {
+        if (this.rooms.has(roomId)) return this.rooms.get(roomId);
+
+        // Concurrent first reads share one load
+        if (!this.loading.has(roomId)) {
+            this.loading.set(roomId, this.readFile(roomId).then((messages) => {
+                this.rooms.set(roomId, messages);
+                this.loading.delete(roomId);
+                return messages;
+            }));
+        }
+        return this.loading.get(roomId);
+    }
+
+    async readFile(roomId) {
+        try {
+            const contents = await fs.readFile(this.fileFor(roomId), "utf8");
+            return contents
+                .split("\n")
+                .filter(Boolean)
+                .flatMap((line) => {
+                    try {
+                        const message = JSON.parse(line);
+                        return [{ ...message, timestamp: new Date(message.timestamp) }];
+                    } catch {
+                        // Skip a partially written last line
+                        return [];
+                    }
+                });
+        } catch (err) {
+            if (err.code === "ENOENT") return [];
+            throw err;
+        }
+    }
+
+    // Snapshot now so appends queued after this rewrite are not written twice
+    enqueueRewrite(roomId, messages) {
+        const snapshot = messages.slice();
+        return this.enqueue(roomId, () => this.rewrite(roomId, snapshot));
+    }
+
+    async rewrite(roomId, messages) {
+        const file = this.fileFor(roomId);
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, messages.map((m) => JSON.stringify(m) + "\n").join(""));
+        await fs.rename(tmp, file);
+    }
+
+    // Serialises file operations per room so lines never interleave
+    enqueue(roomId, operation) {
+        const previous = this.writes.get(roomId) || Promise.resolve();
+        const next = previous
+            .catch(() => {})
+            .then(async () => {
+                await fs.mkdir(this.directory, { recursive: true });
+                return operation();
+            });
+
+        this.writes.set(roomId, next);
+        next.finally(() => {
+            if (this.writes.get(roomId) === next) this.writes.delete(roomId);
+        }).catch(() => {});
+        return next;
+    }
+
+    fileFor(roomId) {
+        return path.join(this.directory, `${encodeURIComponent(roomId)}.jsonl`);
+    }
+}
@@ -0,0 +1,96 @@
+export const DEFAULT_PAGE_SIZE = 50;
+
+// Keeps each room's chat in memory, capped in size and age.
+//
+// Every message store exposes the same async interface:
+//   append(roomId, message)          -> stored message
+//   getPage(roomId, { before, limit }) -> { messages, hasMore }
+//   find(roomId, id)                 -> message or null
+//   update(roomId, id, changes)      -> updated message or null
+//   clear(roomId)
+//   prune()                          -> drop expired messages in every room
+export class MemoryMessageStore {
+    constructor({ maxMessagesPerRoom = 500, ttlMs = 24 * 60 * 60 * 1000 } = {}) {
+        this.maxMessagesPerRoom = maxMessagesPerRoom;
+        this.ttlMs = ttlMs;
+        this.rooms = new Map();
+    }
+
+    async append(roomId, message) {
+        const messages = await this.load(roomId);
+        messages.push(message);
+        this.trim(messages);
+        return message;
+    }
+
+    async getPage(roomId, { before, limit } = {}) {
+        const messages = await this.load(roomId);
+        this.trim(messages);
+        return paginate(messages, { before, limit });
+    }
+
+    async find(roomId, id) {
+        const messages = await this.load(roomId);
+        return messages.find((m) => m.id === id) || null;
+    }
+
+    async update(roomId, id, changes) {
+        const message = await this.find(roomId, id);
+        if (!message) return null;
+        Object.assign(message, changes);
+        return message;
+    }
+
+    async clear(roomId) {
+        this.rooms.delete(roomId);
+    }
+
+    async prune() {
+        this.rooms.forEach((messages, roomId) => {
+            this.trim(messages);
+            if (messages.length === 0) this.rooms.delete(roomId);
+        });
+    }
+
+    // Returns the live array for a room, creating it on first use
+    async load(roomId) {
+        if (!this.rooms.has(roomId)) {
+            this.rooms.set(roomId, []);
+        }
+        return this.rooms.get(roomId);
+    }
+
+    // Removes expired and overflowing messages in place, returning how many were dropped
+    trim(messages) {
+        const before = messages.length;
+        const cutoff = Date.now() - this.ttlMs;
+
+        let expired = 0;
+        while (expired < messages.length && new Date(messages[expired].timestamp).getTime() < cutoff) {
+            expired++;
+        }
+        const overflow = Math.max(messages.length - expired - this.maxMessagesPerRoom, 0);
+
+        if (expired + overflow > 0) {
+            messages.splice(0, expired + overflow);
+        }
+        return before - messages.length;
+    }
+}
+
+// Page backwards through a room's chat, oldest first within the page
+export const paginate = (messages, { before, limit } = {}) => {
+    const pageSize = Math.min(Math.max(Number(limit) || DEFAULT_PAGE_SIZE, 1), DEFAULT_PAGE_SIZE);
+
+    let end = messages.length;
+    if (before !== undefined && before !== null) {
+        const index = messages.findIndex((m) => m.id === before);
+        end = index >= 0 ? index : 0;
+    }
+
+    const start = Math.max(end - pageSize, 0);
+    return {
+        messages: messages.slice(start, end),
+        hasMore: start > 0,
+    };
+};
@@ -0,0 +1,49 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Where RoomRegistry keeps its rooms. Every room store exposes:
+//   loadAll()       -> saved room records
+//   saveAll(records)
+//
+// The memory store keeps nothing, so rooms end with the process.
+export class MemoryRoomStore {
+    async loadAll() {
+        return [];
+    }
+
+    async saveAll() {}
+}
+
+// Keeps all rooms in one JSON file next to the chat history, so the rooms a
+// stored chat belongs to are still there after a restart. The file is small
+// and rewritten whole on every change.
+export class JsonRoomStore {
+    constructor({ file }) {
+        this.file = file;
+        this.writing = Promise.resolve();
+    }
+
+    async loadAll() {
+        try {
+            const records = JSON.parse(await fs.readFile(this.file, "utf8"));
+            return Array.isArray(records) ? records : [];
+        } catch (err) {
+            if (err.code === "ENOENT") return [];
+            throw err;
+        }
+    }
+
+    // Writes run one after another, so the last change always wins
+    saveAll(records) {
+        const contents = JSON.stringify(records);
+        this.writing = this.writing
+            .catch(() => {})
+            .then(async () => {
+                await fs.mkdir(path.dirname(this.file), { recursive: true });
+                const tmp = `${this.file}.tmp`;
+                await fs.writeFile(tmp, contents);
+                await fs.rename(tmp, this.file);
+            });
+        return this.writing;
+    }
+}